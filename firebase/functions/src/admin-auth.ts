@@ -0,0 +1,60 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import * as crypto from "crypto";
+import {HttpError} from "./http-helpers";
+import {PipelineLogger} from "./pipeline-logger";
+
+const logger = new PipelineLogger();
+
+/**
+ * Checks that the request carries a Firebase ID token (`Authorization:
+ * Bearer <token>`) for a user with the `admin` custom claim. Throws a 401
+ * or 403 HttpError when the caller is not allowed.
+ */
+export async function requireAdmin(req: functions.https.Request): Promise<admin.auth.DecodedIdToken> {
+  const header = req.get("Authorization") || "";
+  const match = header.match(/^Bearer\s+(.+)$/i);
+
+  if (!match) {
+    throw new HttpError("unauthorized", "Missing Authorization: Bearer <Firebase ID token> header");
+  }
+
+  let decoded: admin.auth.DecodedIdToken;
+  try {
+    decoded = await admin.auth().verifyIdToken(match[1]);
+  } catch (error) {
+    throw new HttpError("unauthorized", "Invalid or expired ID token");
+  }
+
+  if (decoded.admin !== true) {
+    logger.warn("Admin access denied", {uid: decoded.uid});
+    throw new HttpError("forbidden", "Admin privileges required");
+  }
+
+  return decoded;
+}
+
+// Digests first so the comparison takes the same time whatever the lengths
+function secretMatches(given: string, expected: string): boolean {
+  const digest = (value: string) => crypto.createHash("sha256").update(value).digest();
+  return crypto.timingSafeEqual(digest(given), digest(expected));
+}
+
+/**
+ * For endpoints schedulers and scripts call as well as admins: a request
+ * with `X-Pipeline-Secret` must match PIPELINE_ADMIN_SECRET; anything else
+ * goes through requireAdmin. Returns who the caller is, for logs.
+ */
+export async function requireAdminOrSecret(req: functions.https.Request): Promise<string> {
+  const secret = req.get("X-Pipeline-Secret");
+  if (secret !== undefined) {
+    const expected = process.env.PIPELINE_ADMIN_SECRET;
+    if (!expected || !secretMatches(secret, expected)) {
+      throw new HttpError("unauthorized", "Invalid X-Pipeline-Secret header");
+    }
+    return "pipeline secret";
+  }
+
+  const decoded = await requireAdmin(req);
+  return `admin ${decoded.uid}`;
+}
@@ -0,0 +1,141 @@
+import * as admin from "firebase-admin";
+
+export interface ChangeLogEntry {
+  at: string;
+  removed_ids: string[];
+}
+
+export interface ChangeLog {
+  category: string;
+  // Every removal after this instant is in `entries`
+  complete_since: string;
+  entries: ChangeLogEntry[];
+}
+
+// What publishing a new version of a feed changes, by article id
+export interface FeedChanges {
+  added_ids: string[];
+  updated_ids: string[];
+  removed_ids: string[];
+}
+
+interface VersionedArticle {
+  id?: string;
+  url: string;
+  modified_at?: string;
+}
+
+// Clients away longer than this get a full sync instead of a delta
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+function changeLogPath(category: string): string {
+  return `pipeline/changes/${category}.json`;
+}
+
+function articleKey(article: VersionedArticle): string {
+  return article.id || article.url;
+}
+
+// JSON with sorted keys, so the same article always serialises the same way
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .filter((key) => value[key] !== undefined && key !== "modified_at")
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Sets `modified_at` on every article in `next`: kept from the previous
+ * version when nothing else changed, `at` otherwise. Articles published
+ * before the field existed fall back to their `published_at`.
+ */
+export function stampModifiedAt<T extends VersionedArticle & {published_at?: string}>(
+  previous: T[],
+  next: T[],
+  at: string
+): void {
+  const previousByKey = new Map(previous.map((article) => [articleKey(article), article]));
+
+  for (const article of next) {
+    const before = previousByKey.get(articleKey(article));
+    article.modified_at = before && stableStringify(before) === stableStringify(article) ?
+      before.modified_at || before.published_at || at :
+      at;
+  }
+}
+
+/**
+ * Compares two versions of a feed. `next` must already have been through
+ * stampModifiedAt with the same `at`.
+ */
+export function diffArticles(previous: VersionedArticle[], next: VersionedArticle[], at: string): FeedChanges {
+  const previousKeys = new Set(previous.map(articleKey));
+  const nextKeys = new Set(next.map(articleKey));
+
+  return {
+    added_ids: next.filter((article) => !previousKeys.has(articleKey(article))).map(articleKey),
+    updated_ids: next
+      .filter((article) => previousKeys.has(articleKey(article)) && article.modified_at === at)
+      .map(articleKey),
+    removed_ids: Array.from(previousKeys).filter((key) => !nextKeys.has(key)),
+  };
+}
+
+export async function loadChangeLog(category: string): Promise<ChangeLog | null> {
+  const file = admin.storage().bucket().file(changeLogPath(category));
+  const [exists] = await file.exists();
+  if (!exists) return null;
+
+  const [data] = await file.download();
+  return JSON.parse(data.toString());
+}
+
+/**
+ * Appends the ids that were in `previous` but not in `next` to the
+ * category's change log, dropping entries past retention.
+ */
+export async function recordRemovals(
+  category: string,
+  previous: VersionedArticle[],
+  next: VersionedArticle[],
+  at: string
+): Promise<void> {
+  const kept = new Set(next.map(articleKey));
+  const removedIds = Array.from(new Set(previous.map(articleKey).filter((key) => !kept.has(key))));
+
+  const log = (await loadChangeLog(category)) || {category, complete_since: at, entries: []};
+  if (removedIds.length > 0) {
+    log.entries.push({at, removed_ids: removedIds});
+  }
+
+  const cutoff = new Date(new Date(at).getTime() - RETENTION_MS).toISOString();
+  log.entries = log.entries.filter((entry) => entry.at >= cutoff);
+  if (log.complete_since < cutoff) {
+    log.complete_since = cutoff;
+  }
+
+  await admin.storage().bucket().file(changeLogPath(category)).save(JSON.stringify(log), {
+    contentType: "application/json",
+  });
+}
+
+/**
+ * Ids removed after `sinceMs`, or null when the log does not reach back
+ * that far and the client needs a full sync.
+ */
+export function removedIdsSince(log: ChangeLog | null, sinceMs: number): string[] | null {
+  if (!log || sinceMs < new Date(log.complete_since).getTime()) return null;
+
+  const removed = new Set<string>();
+  for (const entry of log.entries) {
+    if (new Date(entry.at).getTime() > sinceMs) {
+      entry.removed_ids.forEach((id) => removed.add(id));
+    }
+  }
+  return Array.from(removed);
+}
@@ -0,0 +1,283 @@
+import * as cheerio from "cheerio";
+
+export interface ExtractedContent {
+  text: string;
+  author: string | null;
+  lead: string | null;
+  word_count: number;
+  reading_time_minutes: number;
+  // "domain" when a per-domain override matched, "scored" when the best
+  // scoring container had enough text, else "fallback" (every paragraph)
+  method: "domain" | "scored" | "fallback";
+}
+
+interface DomainRule {
+  // Tried in order; the first one yielding enough text wins
+  body: string[];
+  // Removed from the body before reading it
+  remove?: string[];
+  author?: string[];
+}
+
+// Selectors for our main outlets. Anything unmatched goes through scoring.
+const DOMAIN_RULES: Record<string, DomainRule> = {
+  "ansa.it": {
+    body: [".news-txt", "[itemprop='articleBody']", ".post-single-text"],
+    remove: [".news-related", ".box-correlati", ".adv"],
+    author: [".news-author", ".author"],
+  },
+  "corriere.it": {
+    body: [".chapter", "[itemprop='articleBody']", ".content-article"],
+    remove: [".related-news", ".box-leggi-anche", ".share-box", ".paywall"],
+    author: [".writer", ".author-art", "[itemprop='author']"],
+  },
+  "repubblica.it": {
+    body: [".story__text", "[itemprop='articleBody']"],
+    remove: [".story__related", ".inline-article", ".story__toolbar"],
+    author: [".story__author", "[itemprop='author']"],
+  },
+  "gazzetta.it": {
+    body: [".bck-media-news", ".content-article", "[itemprop='articleBody']"],
+    remove: [".related-article", ".box-correlati", ".social-bar"],
+    author: [".author-name", ".writer", "[itemprop='author']"],
+  },
+};
+
+// Readability's heuristics, with the Italian names publishers use
+const UNLIKELY_CANDIDATES = /banner|breadcrumb|combx|comment|community|cookie|consent|disqus|extra|footer|gdpr|header|legend|menu|modal|newsletter|outbrain|pager|paywall|popup|promo|related|correlat|leggi-?anche|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|taboola|tags|toolbar|widget|abbonati/i;
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow|testo|articolo/i;
+const POSITIVE = /article|body|content|entry|hentry|h-entry|main|page|post|story|text|testo|articolo|corpo/i;
+const NEGATIVE = /-ad-|hidden|^hid$| hid$| hid |^hid |banner|combx|comment|com-|contact|foot|footer|footnote|gdpr|masthead|media|meta|outbrain|promo|related|correlat|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget|leggi/i;
+
+const BOILERPLATE_TEXT = /^(leggi anche|leggi l'articolo|guarda anche|ascolta|iscriviti|abbonati|riproduzione riservata|©|read more|sign up)/i;
+
+const MIN_PARAGRAPH_CHARS = 25;
+const MIN_BODY_CHARS = 200;
+const MAX_BODY_CHARS = 20000;
+// Average silent reading speed for Italian prose
+const WORDS_PER_MINUTE = 200;
+
+function findDomainRule(hostname: string): DomainRule | null {
+  const host = hostname.toLowerCase();
+  for (const [domain, rule] of Object.entries(DOMAIN_RULES)) {
+    if (host === domain || host.endsWith(`.${domain}`)) {
+      return rule;
+    }
+  }
+  return null;
+}
+
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function classWeight($el: cheerio.Cheerio<cheerio.Element>): number {
+  let weight = 0;
+  for (const value of [$el.attr("class"), $el.attr("id")]) {
+    if (!value) continue;
+    if (NEGATIVE.test(value)) weight -= 25;
+    if (POSITIVE.test(value)) weight += 25;
+  }
+  return weight;
+}
+
+function linkDensity($: cheerio.CheerioAPI, $el: cheerio.Cheerio<cheerio.Element>): number {
+  const textLength = cleanText($el.text()).length;
+  if (textLength === 0) return 0;
+  const linkLength = $el.find("a").toArray().reduce((sum, a) => sum + cleanText($(a).text()).length, 0);
+  return linkLength / textLength;
+}
+
+function removeUnlikelyCandidates($: cheerio.CheerioAPI) {
+  $("script, style, noscript, iframe, form, nav, header, footer, aside, button, svg, figure figcaption").remove();
+  $(".ad, .advertisement, .comments, [aria-hidden='true'], [hidden]").remove();
+
+  $("*").each((_, node: cheerio.Element) => {
+    const $node = $(node);
+    const tag = node.tagName?.toLowerCase();
+    if (tag === "body" || tag === "html" || tag === "article" || tag === "main") return;
+
+    const matchString = `${$node.attr("class") || ""} ${$node.attr("id") || ""}`;
+    if (UNLIKELY_CANDIDATES.test(matchString) && !MAYBE_CANDIDATE.test(matchString)) {
+      $node.remove();
+    }
+  });
+}
+
+/**
+ * Readability-style candidate scoring: every paragraph adds points to its
+ * parent and half to its grandparent, based on length and commas; each
+ * candidate is then penalised by its link density.
+ */
+function findBestCandidate($: cheerio.CheerioAPI): cheerio.Cheerio<cheerio.Element> | null {
+  const scores = new Map<cheerio.Element, number>();
+
+  const initialScore = (node: cheerio.Element): number => {
+    const tag = node.tagName.toLowerCase();
+    let score = classWeight($(node));
+    if (tag === "div" || tag === "article" || tag === "section") score += 5;
+    if (tag === "main") score += 3;
+    if (tag === "ul" || tag === "ol" || tag === "form") score -= 3;
+    return score;
+  };
+
+  $("p, pre, td, blockquote").each((_, paragraph) => {
+    const text = cleanText($(paragraph).text());
+    if (text.length < MIN_PARAGRAPH_CHARS) return;
+
+    const contentScore = 1 + text.split(/[,،]/).length + Math.min(Math.floor(text.length / 100), 3);
+
+    const parent = paragraph.parent as cheerio.Element;
+    if (!parent || parent.type !== "tag") return;
+    if (!scores.has(parent)) scores.set(parent, initialScore(parent));
+    scores.set(parent, scores.get(parent) + contentScore);
+
+    const grandparent = parent.parent as cheerio.Element;
+    if (grandparent && grandparent.type === "tag") {
+      if (!scores.has(grandparent)) scores.set(grandparent, initialScore(grandparent));
+      scores.set(grandparent, scores.get(grandparent) + contentScore / 2);
+    }
+  });
+
+  let best: cheerio.Element | null = null;
+  let bestScore = 0;
+  for (const [node, score] of scores) {
+    const adjusted = score * (1 - linkDensity($, $(node)));
+    if (adjusted > bestScore) {
+      bestScore = adjusted;
+      best = node;
+    }
+  }
+
+  return best ? $(best) : null;
+}
+
+function collectParagraphs($: cheerio.CheerioAPI, $root: cheerio.Cheerio<cheerio.Element>): string[] {
+  const paragraphs: string[] = [];
+  const blocks = $root.find("p, h2, h3, li, blockquote");
+
+  const source = blocks.length > 0 ? blocks.toArray() : [$root.get(0)];
+  for (const block of source) {
+    const $block = $(block);
+    // Nested blocks are read through their outermost ancestor
+    if (blocks.length > 0 && $block.parentsUntil($root).filter("p, li, blockquote").length > 0) continue;
+
+    const text = cleanText($block.text());
+    if (text.length < MIN_PARAGRAPH_CHARS && !/^h[23]$/i.test(block.tagName)) continue;
+    if (BOILERPLATE_TEXT.test(text)) continue;
+    if (linkDensity($, $block) > 0.5) continue;
+
+    paragraphs.push(text);
+  }
+
+  return paragraphs;
+}
+
+function extractAuthor($: cheerio.CheerioAPI, rule: DomainRule | null): string | null {
+  const candidates: Array<string | undefined> = [];
+
+  for (const selector of rule?.author || []) {
+    candidates.push($(selector).first().text());
+  }
+
+  candidates.push(
+    $("meta[name='author']").attr("content"),
+    $("meta[property='article:author']").attr("content"),
+    $("[itemprop='author'] [itemprop='name']").first().text(),
+    $("[itemprop='author']").first().attr("content") || $("[itemprop='author']").first().text(),
+    $("[rel='author']").first().text()
+  );
+
+  $("script[type='application/ld+json']").each((_, node) => {
+    try {
+      const data = JSON.parse($(node).contents().text());
+      const entries = Array.isArray(data) ? data : data["@graph"] || [data];
+      for (const entry of entries) {
+        const author = Array.isArray(entry?.author) ? entry.author[0] : entry?.author;
+        if (typeof author === "string") candidates.push(author);
+        else if (author?.name) candidates.push(author.name);
+      }
+    } catch {
+      // Malformed JSON-LD is common; ignore it
+    }
+  });
+
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    const author = cleanText(candidate).replace(/^(di|by)\s+/i, "");
+    // URLs (article:author often is one) and long blurbs are not names
+    if (author.length > 1 && author.length <= 80 && !/^https?:/i.test(author)) {
+      return author;
+    }
+  }
+  return null;
+}
+
+function buildResult(
+  paragraphs: string[],
+  author: string | null,
+  method: ExtractedContent["method"]
+): ExtractedContent {
+  const text = paragraphs.join(" ").substring(0, MAX_BODY_CHARS);
+  const wordCount = text.split(/\s+/).filter((w) => w.length > 0).length;
+  const lead = paragraphs.find((p) => p.length >= 80) || paragraphs[0] || null;
+
+  return {
+    text,
+    author,
+    lead,
+    word_count: wordCount,
+    reading_time_minutes: wordCount > 0 ? Math.max(1, Math.round(wordCount / WORDS_PER_MINUTE)) : 0,
+    method,
+  };
+}
+
+/**
+ * Extracts the article body from a page: per-domain selectors for our main
+ * outlets first, then Readability-style scoring by text and link density,
+ * and finally every paragraph on the page. Mutates `$`.
+ */
+export function extractContent($: cheerio.CheerioAPI, pageUrl: string): ExtractedContent {
+  let hostname = "";
+  try {
+    hostname = new URL(pageUrl).hostname;
+  } catch {
+    // Leave hostname empty: no domain rule applies
+  }
+
+  const rule = findDomainRule(hostname);
+  // Read before unlikely candidates (bylines often sit in headers) are removed
+  const author = extractAuthor($, rule);
+
+  if (rule) {
+    for (const selector of rule.remove || []) {
+      $(selector).remove();
+    }
+    $("script, style, noscript, iframe").remove();
+
+    for (const selector of rule.body) {
+      const $body = $(selector);
+      if ($body.length === 0) continue;
+
+      const paragraphs = $body.toArray().flatMap((node: cheerio.Element) => collectParagraphs($, $(node)));
+      if (paragraphs.join(" ").length >= MIN_BODY_CHARS) {
+        return buildResult(paragraphs, author, "domain");
+      }
+    }
+  }
+
+  removeUnlikelyCandidates($);
+
+  const candidate = findBestCandidate($);
+  if (candidate) {
+    const paragraphs = collectParagraphs($, candidate);
+    if (paragraphs.join(" ").length >= MIN_BODY_CHARS) {
+      return buildResult(paragraphs, author, "scored");
+    }
+  }
+
+  const paragraphs = $("p").toArray()
+    .map((node) => cleanText($(node).text()))
+    .filter((text) => text.length >= MIN_PARAGRAPH_CHARS && !BOILERPLATE_TEXT.test(text));
+  return buildResult(paragraphs, author, "fallback");
+}
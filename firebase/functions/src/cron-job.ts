@@ -1,58 +1,111 @@
 import * as functions from "firebase-functions";
 import {runUnifiedPipeline} from "./unified-pipeline";
+import {startFanOutRun} from "./pipeline-jobs";
+import {PipelineLogger} from "./pipeline-logger";
+import {requireAdminOrSecret} from "./admin-auth";
+import {HttpError, httpEndpoint, queryBoolean, queryCategory, queryString} from "./http-helpers";
+import {NEWS_CATEGORIES, loadSourceRegistry} from "./source-registry";
 
+const logger = new PipelineLogger();
+
+// Only enqueues: each category runs as its own processCategoryJob
 export const newsAggregatorCron = functions
   .runWith({
-    timeoutSeconds: 540,
-    memory: "1GB",
+    timeoutSeconds: 60,
+    memory: "256MB",
   })
   .pubsub
   .schedule("every 2 hours")
   .timeZone("Europe/Rome")
   .onRun(async (context) => {
-    console.log("Cron job triggered");
+    logger.info("Cron job triggered");
 
     try {
-      await runUnifiedPipeline();
-      console.log("Cron job completed");
+      const runId = await startFanOutRun();
+      logger.info("Cron job enqueued run", {run_id: runId});
       return null;
     } catch (error) {
-      console.error("Cron job failed:", error);
+      logger.error("Cron job failed", error);
       throw error;
     }
   });
 
+/**
+ * Runs the pipeline in-process. `category` and `source` narrow the run;
+ * `dry_run=true` reports what would change without writing anything.
+ */
 export const runBackendManual = functions
   .runWith({
     timeoutSeconds: 540,
     memory: "512MB",
   })
-  .https.onRequest(async (req, res) => {
-    console.log("Manual trigger");
+  .https.onRequest(httpEndpoint({
+    name: "Manual run",
+    // GET as well, for the schedulers and scripts that already call it
+    methods: ["GET", "POST"],
+    allowHeaders: ["Authorization", "X-Pipeline-Secret"],
+  }, async (req, res) => {
+    // httpEndpoint lets HEAD through with GET; it must not start a run
+    if (req.method === "HEAD") {
+      throw new HttpError("method_not_allowed", "Use GET or POST");
+    }
+    const caller = await requireAdminOrSecret(req);
 
-    try {
-      const results = await runUnifiedPipeline();
+    const category = queryCategory(req, {allowed: NEWS_CATEGORIES});
+    const sourceId = queryString(req, "source", {maxLength: 100});
+    const dryRun = queryBoolean(req, "dry_run", false);
+
+    let categories = category ? [category] : undefined;
+    if (sourceId) {
+      const {registry} = await loadSourceRegistry({seed: !dryRun});
+      const source = registry.sources.find((entry) => entry.id === sourceId);
+      if (!source) {
+        throw new HttpError("not_found", `No source ${sourceId}`);
+      }
+      if (!source.enabled) {
+        throw new HttpError("invalid_parameter", `Source ${sourceId} is disabled`, {parameter: "source"});
+      }
+      if (category && source.category !== category) {
+        throw new HttpError("invalid_parameter", `Source ${sourceId} belongs to ${source.category}, not ${category}`, {
+          parameter: "source",
+        });
+      }
+      categories = [source.category];
+    }
+
+    logger.info("Manual trigger", {caller, categories, source: sourceId, dry_run: dryRun});
+    const run = await runUnifiedPipeline({categories, sourceId, dryRun});
+    const {results} = run;
 
     const successful = results.filter((r) => r.success);
     const failed = results.filter((r) => !r.success);
 
-    res.json({
+    res.status(200).json({
       success: true,
-      message: "Unified pipeline completed",
+      message: dryRun ? "Dry run completed, nothing was written" : "Unified pipeline completed",
+      run_id: run.run_id,
+      dry_run: run.dry_run,
+      scope: {
+        categories: categories || NEWS_CATEGORIES,
+        source: sourceId || null,
+      },
       timestamp: new Date().toISOString(),
       summary: {
         total_categories: results.length,
         successful: successful.length,
         failed: failed.length,
         total_articles: results.reduce((sum, r) => sum + r.total_articles, 0),
+        duration_ms: run.duration_ms,
+        budget_exhausted: run.budget_exhausted,
+        deferred_sources: run.deferred_sources.length,
+        deferred_articles: run.deferred_articles.length,
       },
+      deferred_sources: run.deferred_sources,
+      ...(dryRun ? {
+        changes: Object.fromEntries(results
+          .filter((r) => r.changes)
+          .map((r) => [r.category, r.changes])),
+      } : {}),
       results: results,
     });
-  } catch (error) {
-    res.status(500).json({
-      success: false,
-      error: error instanceof Error ? error.message : String(error),
-      timestamp: new Date().toISOString(),
-    });
-  }
-});
+  }));
@@ -0,0 +1,219 @@
+export type DateStatus = "ok" | "assumed_timezone" | "clamped_future" | "future" | "unparseable" | "missing";
+
+export interface NormalizedDate {
+  // UTC ISO 8601, null when the date could not be used
+  iso: string | null;
+  original: string;
+  status: DateStatus;
+}
+
+// Timezone assumed for dates that carry none: nearly every source is Italian
+const DEFAULT_TIME_ZONE = "Europe/Rome";
+
+// Dates this far ahead are feeds labelling local time as GMT; later ones are bogus
+const FUTURE_CLAMP_MS = 3 * 60 * 60 * 1000;
+const FUTURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+  gen: 1, mag: 5, giu: 6, lug: 7, ago: 8, set: 9, ott: 10, dic: 12,
+};
+
+const WEEKDAY_PATTERN = /^(mon|tue|wed|thu|fri|sat|sun|lun|mar|mer|gio|ven|sab|dom)[a-z\u00e0-\u00f9]*\.?,?\s+/i;
+
+const ZONE_OFFSETS: Record<string, number> = {
+  UT: 0, UTC: 0, GMT: 0, Z: 0,
+  CET: 60, CEST: 120, WET: 0, WEST: 60, BST: 60,
+  EST: -300, EDT: -240, CST: -360, CDT: -300, MST: -420, MDT: -360, PST: -480, PDT: -420,
+};
+
+interface DateParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+  // Minutes east of UTC, null when the string carried no timezone
+  offset: number | null;
+}
+
+function monthFromName(name: string): number | null {
+  const key = name
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .substring(0, 3);
+  return MONTHS[key] || null;
+}
+
+function parseOffset(zone: string | undefined): number | null | undefined {
+  if (!zone) return null;
+
+  const trimmed = zone.trim().toUpperCase();
+  if (trimmed === "") return null;
+
+  const numeric = trimmed.match(/^(?:GMT|UTC)?([+-])(\d{2}):?(\d{2})$/);
+  if (numeric) {
+    const minutes = parseInt(numeric[2], 10) * 60 + parseInt(numeric[3], 10);
+    return numeric[1] === "-" ? -minutes : minutes;
+  }
+
+  if (trimmed in ZONE_OFFSETS) {
+    return ZONE_OFFSETS[trimmed];
+  }
+
+  // Unknown zone: let the caller treat the whole string as unparseable
+  return undefined;
+}
+
+function parseIsoLike(text: string): DateParts | null {
+  const match = text.match(
+    /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:[.,](\d+))?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i
+  );
+  if (!match) return null;
+
+  const offset = parseOffset(match[8]);
+  if (offset === undefined) return null;
+
+  return {
+    year: parseInt(match[1], 10),
+    month: parseInt(match[2], 10),
+    day: parseInt(match[3], 10),
+    hour: parseInt(match[4] || "0", 10),
+    minute: parseInt(match[5] || "0", 10),
+    second: parseInt(match[6] || "0", 10),
+    millisecond: match[7] ? parseInt(match[7].substring(0, 3).padEnd(3, "0"), 10) : 0,
+    offset,
+  };
+}
+
+// "Wed, 01 May 2024 10:00:00 +0200", "mercoledì 1 maggio 2024, ore 10.00"
+function parseTextual(text: string): DateParts | null {
+  const stripped = text.replace(WEEKDAY_PATTERN, "");
+  const match = stripped.match(
+    /^(\d{1,2})\s+([a-z\u00e0-\u00f9]+)\.?\s+(\d{2,4})(?:,?\s*(?:ore\s*|alle\s*)?(\d{1,2})[:.](\d{2})(?:[:.](\d{2}))?)?\s*(.*)$/i
+  );
+  if (!match) return null;
+
+  const month = monthFromName(match[2]);
+  if (!month) return null;
+
+  const offset = parseOffset(match[7]);
+  if (offset === undefined) return null;
+
+  let year = parseInt(match[3], 10);
+  if (year < 100) year += 2000;
+
+  return {
+    year,
+    month,
+    day: parseInt(match[1], 10),
+    hour: parseInt(match[4] || "0", 10),
+    minute: parseInt(match[5] || "0", 10),
+    second: parseInt(match[6] || "0", 10),
+    millisecond: 0,
+    offset,
+  };
+}
+
+// "01/05/2024 10:00" in Italian day-first order
+function parseNumericDayFirst(text: string): DateParts | null {
+  const match = text.match(
+    /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?:[ ,T]+(?:ore\s*)?(\d{1,2})[:.](\d{2})(?:[:.](\d{2}))?)?$/i
+  );
+  if (!match) return null;
+
+  return {
+    year: parseInt(match[3], 10),
+    month: parseInt(match[2], 10),
+    day: parseInt(match[1], 10),
+    hour: parseInt(match[4] || "0", 10),
+    minute: parseInt(match[5] || "0", 10),
+    second: parseInt(match[6] || "0", 10),
+    millisecond: 0,
+    offset: null,
+  };
+}
+
+function isValidParts(parts: DateParts): boolean {
+  return parts.month >= 1 && parts.month <= 12 &&
+    parts.day >= 1 && parts.day <= 31 &&
+    parts.hour <= 23 && parts.minute <= 59 && parts.second <= 60 &&
+    parts.year >= 1990 && parts.year <= 2100;
+}
+
+// Offset of `timeZone` from UTC, in minutes, at the given instant
+function timeZoneOffset(utcMs: number, timeZone: string): number {
+  const formatted = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric", month: "2-digit", day: "2-digit",
+    hour: "2-digit", minute: "2-digit", second: "2-digit",
+  }).formatToParts(new Date(utcMs));
+
+  const value = (type: string) => parseInt(formatted.find((p) => p.type === type)?.value || "0", 10);
+  const asUtc = Date.UTC(value("year"), value("month") - 1, value("day"), value("hour"), value("minute"), value("second"));
+  return Math.round((asUtc - Math.floor(utcMs / 1000) * 1000) / 60000);
+}
+
+function toUtcMs(parts: DateParts): number {
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, parts.millisecond);
+  if (parts.offset !== null) {
+    return wallClock - parts.offset * 60000;
+  }
+
+  // Two passes settle the offset around DST transitions
+  let offset = timeZoneOffset(wallClock, DEFAULT_TIME_ZONE);
+  offset = timeZoneOffset(wallClock - offset * 60000, DEFAULT_TIME_ZONE);
+  return wallClock - offset * 60000;
+}
+
+function rawToString(raw: unknown): string {
+  if (raw === null || raw === undefined) return "";
+  if (typeof raw === "string") return raw.trim();
+  if (typeof raw === "number") return String(raw);
+  if (typeof raw === "object" && "#text" in (raw as any)) return String((raw as any)["#text"]).trim();
+  return "";
+}
+
+/**
+ * Normalises a feed date (RFC 822, ISO 8601, Italian month names or
+ * day-first numeric dates) to UTC ISO 8601. Dates without a timezone are
+ * read as Europe/Rome wall-clock time. Dates slightly in the future are
+ * clamped to `now`; anything further ahead, or unparseable, gets a null iso.
+ */
+export function normalizePublishedDate(raw: unknown, now: number = Date.now()): NormalizedDate {
+  const original = rawToString(raw);
+  if (!original) {
+    return {iso: null, original, status: "missing"};
+  }
+
+  const text = original.replace(/\s+/g, " ");
+  const parts = parseIsoLike(text) || parseTextual(text) || parseNumericDayFirst(text);
+
+  let utcMs: number | null = null;
+  let status: DateStatus = "ok";
+
+  if (parts && isValidParts(parts)) {
+    utcMs = toUtcMs(parts);
+    if (parts.offset === null) status = "assumed_timezone";
+  } else if (/^\d{10,13}$/.test(text)) {
+    // Unix timestamps in seconds or milliseconds
+    utcMs = text.length === 13 ? parseInt(text, 10) : parseInt(text, 10) * 1000;
+  }
+
+  if (utcMs === null || isNaN(utcMs)) {
+    return {iso: null, original, status: "unparseable"};
+  }
+
+  if (utcMs > now + FUTURE_TOLERANCE_MS) {
+    if (utcMs - now <= FUTURE_CLAMP_MS) {
+      return {iso: new Date(now).toISOString(), original, status: "clamped_future"};
+    }
+    return {iso: null, original, status: "future"};
+  }
+
+  return {iso: new Date(utcMs).toISOString(), original, status};
+}
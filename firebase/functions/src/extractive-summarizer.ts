@@ -0,0 +1,212 @@
+import {SupportedLanguage, getStopWords, stemWord, tokenizeWords} from "./language-detection";
+
+// Abbreviations whose trailing period never ends a sentence, lower-cased
+const ABBREVIATIONS: Record<SupportedLanguage | "default", Set<string>> = {
+  it: new Set([
+    "sig", "sigg", "sig.ra", "sig.na", "dott", "dott.ssa", "prof", "prof.ssa", "avv", "ing", "arch",
+    "on", "sen", "dep", "gen", "col", "cap", "magg", "ten", "mons", "don", "geom", "rag", "egr", "gent",
+    "spett", "pag", "pagg", "art", "artt", "comma", "n", "nn", "num", "vol", "ecc", "etc", "cfr",
+    "es", "p.es", "ca", "tel", "fax", "ss", "sec", "min", "max", "mln", "mld", "mrd", "km", "kg", "c.a",
+    "s.p.a", "s.r.l", "s.n.c", "s.a.s", "u.s.a", "u.e", "p.m", "a.c", "d.c", "d.lgs", "d.l", "l",
+  ]),
+  en: new Set([
+    "mr", "mrs", "ms", "dr", "prof", "sr", "jr", "st", "gen", "gov", "sen", "rep", "col", "lt", "sgt",
+    "capt", "cmdr", "vs", "etc", "inc", "ltd", "co", "corp", "no", "nos", "vol", "fig", "approx", "dept",
+    "est", "jan", "feb", "mar", "apr", "jun", "jul", "aug", "sep", "sept", "oct", "nov", "dec",
+    "u.s", "u.k", "u.n", "e.g", "i.e", "a.m", "p.m",
+  ]),
+  default: new Set(["etc", "vs", "e.g", "i.e"]),
+};
+
+// Lines publishers append to articles that are never part of the story
+const BOILERPLATE_PATTERNS = [
+  /^leggi anche/i,
+  /riproduzione riservata/i,
+  /tutti i diritti riservati/i,
+  /^©/,
+  /iscriviti (alla|alla nostra) newsletter/i,
+  /^read more/i,
+  /all rights reserved/i,
+  /cookie/i,
+];
+
+const MIN_SENTENCE_WORDS = 5;
+const DAMPING = 0.85;
+const ITERATIONS = 30;
+
+interface ScoredSentence {
+  index: number;
+  text: string;
+  words: number;
+  score: number;
+}
+
+function isAbbreviation(token: string, abbreviations: Set<string>): boolean {
+  const bare = token.replace(/^[("«“']+/, "").replace(/\.$/, "").toLowerCase();
+  if (abbreviations.has(bare)) return true;
+  // Initials ("G. Meloni") and dotted acronyms ("S.p.A.", "U.S.A.")
+  if (/^[A-Z]$/.test(token.replace(/\.$/, ""))) return true;
+  if (/^([A-Za-z]\.){2,}[A-Za-z]?$/.test(token.replace(/\.$/, "") + ".")) return true;
+  return false;
+}
+
+/**
+ * Splits text into sentences without breaking on abbreviations ("sig.",
+ * "S.p.A."), initials or decimal numbers ("3.5", "10.30").
+ */
+export function splitSentences(text: string, language: SupportedLanguage | null): string[] {
+  const abbreviations = ABBREVIATIONS[language || "default"];
+  const sentences: string[] = [];
+  // Terminal punctuation, optional closing quotes, whitespace, then something
+  // that can start a sentence
+  const boundary = /([.!?…]+)(["»”’')]*)\s+(?=["«“'(]?[A-Z\u00c0-\u00dd0-9])/g;
+
+  let start = 0;
+  let match: RegExpExecArray | null;
+  while ((match = boundary.exec(text)) !== null) {
+    const end = match.index + match[1].length + match[2].length;
+
+    if (match[1] === ".") {
+      const before = text.substring(start, match.index + 1);
+      const lastToken = before.split(/\s+/).pop() || "";
+      if (isAbbreviation(lastToken, abbreviations)) continue;
+    }
+
+    const sentence = text.substring(start, end).trim();
+    if (sentence) sentences.push(sentence);
+    start = match.index + match[0].length;
+  }
+
+  const rest = text.substring(start).trim();
+  if (rest) sentences.push(rest);
+
+  return sentences;
+}
+
+function sentenceTerms(sentence: string, language: SupportedLanguage | null, stopWords: Set<string>): string[] {
+  return tokenizeWords(sentence)
+    .flatMap((word) => word.split("'"))
+    .filter((word) => word.length > 2 && !stopWords.has(word) && !/^\d+$/.test(word))
+    .map((word) => stemWord(word, language));
+}
+
+function countWords(sentence: string): number {
+  return sentence.split(/\s+/).filter((w) => w.length > 0).length;
+}
+
+/**
+ * TextRank over TF-IDF cosine similarity between sentences, with a prior
+ * towards the opening sentences since news articles lead with the story.
+ */
+function rankSentences(sentences: string[], language: SupportedLanguage | null): number[] {
+  const stopWords = getStopWords(language);
+  const terms = sentences.map((sentence) => sentenceTerms(sentence, language, stopWords));
+  const n = sentences.length;
+
+  const documentFrequency = new Map<string, number>();
+  for (const sentenceTermsList of terms) {
+    for (const term of new Set(sentenceTermsList)) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  const vectors = terms.map((sentenceTermsList) => {
+    const vector = new Map<string, number>();
+    for (const term of sentenceTermsList) {
+      vector.set(term, (vector.get(term) || 0) + 1);
+    }
+    for (const [term, tf] of vector) {
+      vector.set(term, tf * Math.log(1 + n / (documentFrequency.get(term) || 1)));
+    }
+    return vector;
+  });
+
+  const norms = vectors.map((vector) => Math.sqrt(Array.from(vector.values()).reduce((sum, v) => sum + v * v, 0)));
+
+  const similarity: number[][] = Array.from({length: n}, () => new Array(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      if (norms[i] === 0 || norms[j] === 0) continue;
+      let dot = 0;
+      for (const [term, weight] of vectors[i]) {
+        const other = vectors[j].get(term);
+        if (other) dot += weight * other;
+      }
+      const value = dot / (norms[i] * norms[j]);
+      similarity[i][j] = value;
+      similarity[j][i] = value;
+    }
+  }
+
+  const outWeight = similarity.map((row) => row.reduce((sum, v) => sum + v, 0));
+
+  const prior = sentences.map((_, i) => 1 / (i + 1));
+  const priorSum = prior.reduce((sum, v) => sum + v, 0);
+  const personalization = prior.map((v) => v / priorSum);
+
+  let scores = new Array(n).fill(1 / n);
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    const next = personalization.map((p) => (1 - DAMPING) * p);
+    for (let j = 0; j < n; j++) {
+      if (outWeight[j] === 0) {
+        // Dangling sentence: redistribute along the prior
+        for (let i = 0; i < n; i++) next[i] += DAMPING * scores[j] * personalization[i];
+        continue;
+      }
+      for (let i = 0; i < n; i++) {
+        if (similarity[j][i] > 0) {
+          next[i] += DAMPING * scores[j] * similarity[j][i] / outWeight[j];
+        }
+      }
+    }
+    scores = next;
+  }
+
+  return scores;
+}
+
+/**
+ * Picks the highest-ranked sentences until the summary reaches `minWords`
+ * without passing `maxWords`, and returns them in article order. Returns
+ * null when the text has no usable sentence.
+ */
+export function summarizeExtractive(
+  text: string,
+  language: SupportedLanguage | null,
+  options: {minWords: number; maxWords: number}
+): string | null {
+  const normalized = text.replace(/\s+/g, " ").trim();
+  const sentences = splitSentences(normalized, language)
+    .filter((sentence) => countWords(sentence) >= MIN_SENTENCE_WORDS)
+    .filter((sentence) => !BOILERPLATE_PATTERNS.some((pattern) => pattern.test(sentence)));
+
+  if (sentences.length === 0) {
+    return null;
+  }
+
+  const ranks = rankSentences(sentences, language);
+  const scored: ScoredSentence[] = sentences
+    .map((sentence, index) => ({index, text: sentence, words: countWords(sentence), score: ranks[index]}))
+    .sort((a, b) => b.score - a.score);
+
+  const chosen: ScoredSentence[] = [];
+  let wordCount = 0;
+
+  for (const sentence of scored) {
+    if (wordCount + sentence.words > options.maxWords) continue;
+    chosen.push(sentence);
+    wordCount += sentence.words;
+    if (wordCount >= options.minWords) break;
+  }
+
+  if (chosen.length === 0) {
+    // Every sentence is longer than the budget: cut the best one
+    const words = scored[0].text.split(/\s+/).slice(0, options.maxWords);
+    return words.join(" ").replace(/[,;:]$/, "") + "...";
+  }
+
+  return chosen
+    .sort((a, b) => a.index - b.index)
+    .map((sentence) => /[.!?…"»”]$/.test(sentence.text) ? sentence.text : sentence.text + ".")
+    .join(" ");
+}
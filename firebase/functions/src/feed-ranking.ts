@@ -0,0 +1,127 @@
+import {analyzeText} from "./search-index";
+
+export interface RankableArticle {
+  id?: string;
+  title: string;
+  url: string;
+  summary: string;
+  source: string;
+  published_at: string;
+  related_sources?: Array<{id?: string; source: string}>;
+  [field: string]: any;
+}
+
+export interface FeedCandidate {
+  article: RankableArticle;
+  categories: string[];
+}
+
+export interface FeedPreferences {
+  // Relative interest per category; missing categories count as 1, 0 hides them
+  category_weights: Record<string, number>;
+  muted_sources: string[];
+  muted_keywords: string[];
+  seen_ids: string[];
+}
+
+export interface RankedArticle {
+  article: RankableArticle;
+  category: string;
+  score: number;
+}
+
+// Freshness halves every this many hours
+const FRESHNESS_HALF_LIFE_HOURS = 12;
+// Each article already picked from a source multiplies the next one's score by this
+const SOURCE_REPEAT_PENALTY = 0.7;
+const CATEGORY_REPEAT_PENALTY = 0.9;
+// Stories several outlets covered get up to this much extra
+const MAX_COVERAGE_BOOST = 0.5;
+const COVERAGE_BOOST_PER_SOURCE = 0.1;
+
+function categoryWeight(categories: string[], weights: Record<string, number>): {category: string; weight: number} {
+  let best = {category: categories[0], weight: -1};
+  for (const category of categories) {
+    const weight = weights[category] ?? 1;
+    if (weight > best.weight) best = {category, weight};
+  }
+  return best;
+}
+
+function isSeen(article: RankableArticle, seen: Set<string>): boolean {
+  if (article.id && seen.has(article.id)) return true;
+  return (article.related_sources || []).some((related) => related.id && seen.has(related.id));
+}
+
+function baseScore(article: RankableArticle, weight: number, now: number): number {
+  const publishedAt = new Date(article.published_at).getTime();
+  const ageHours = isNaN(publishedAt) ? Infinity : Math.max(0, (now - publishedAt) / 3600000);
+  const freshness = Math.pow(0.5, ageHours / FRESHNESS_HALF_LIFE_HOURS);
+  const coverage = 1 + Math.min(MAX_COVERAGE_BOOST, (article.related_sources?.length || 0) * COVERAGE_BOOST_PER_SOURCE);
+  return weight * freshness * coverage;
+}
+
+/**
+ * Ranks candidates for one user: category weight times freshness decay,
+ * boosted for widely covered stories, after dropping seen articles, muted
+ * sources and muted keywords. Articles are then picked greedily, with each
+ * pick discounting further articles from the same source and category so
+ * one outlet cannot fill the feed.
+ */
+export function rankFeed(
+  candidates: FeedCandidate[],
+  preferences: FeedPreferences,
+  limit: number,
+  now: number = Date.now()
+): RankedArticle[] {
+  const seen = new Set(preferences.seen_ids);
+  const mutedSources = new Set(preferences.muted_sources.map((source) => source.toLowerCase()));
+  const mutedTerms = preferences.muted_keywords.map((keyword) => analyzeText(keyword)).filter((terms) => terms.length > 0);
+
+  const pool: Array<RankedArticle & {key: string}> = [];
+  const added = new Set<string>();
+
+  for (const {article, categories} of candidates) {
+    const key = article.id || article.url;
+    if (added.has(key) || isSeen(article, seen)) continue;
+    if (mutedSources.has(article.source.toLowerCase())) continue;
+
+    const {category, weight} = categoryWeight(categories, preferences.category_weights);
+    if (weight <= 0) continue;
+
+    if (mutedTerms.length > 0) {
+      const articleTerms = new Set(analyzeText(`${article.title} ${article.summary}`));
+      // A muted phrase matches when all of its terms appear
+      if (mutedTerms.some((terms) => terms.every((term) => articleTerms.has(term)))) continue;
+    }
+
+    added.add(key);
+    pool.push({article, category, score: baseScore(article, weight, now), key});
+  }
+
+  const ranked: RankedArticle[] = [];
+  const sourceCounts = new Map<string, number>();
+  const categoryCounts = new Map<string, number>();
+
+  while (ranked.length < limit && pool.length > 0) {
+    let bestIndex = 0;
+    let bestScore = -1;
+    for (let i = 0; i < pool.length; i++) {
+      const candidate = pool[i];
+      const adjusted = candidate.score *
+        Math.pow(SOURCE_REPEAT_PENALTY, sourceCounts.get(candidate.article.source) || 0) *
+        Math.pow(CATEGORY_REPEAT_PENALTY, categoryCounts.get(candidate.category) || 0);
+      if (adjusted > bestScore) {
+        bestScore = adjusted;
+        bestIndex = i;
+      }
+    }
+
+    const [picked] = pool.splice(bestIndex, 1);
+    sourceCounts.set(picked.article.source, (sourceCounts.get(picked.article.source) || 0) + 1);
+    categoryCounts.set(picked.category, (categoryCounts.get(picked.category) || 0) + 1);
+    ranked.push({article: picked.article, category: picked.category, score: bestScore});
+  }
+
+  return ranked;
+}
@@ -0,0 +1,162 @@
+import * as admin from "firebase-admin";
+import * as zlib from "zlib";
+import {PipelineLogger} from "./pipeline-logger";
+import {isNotFound, publicUrlFor} from "./shared-helpers";
+
+interface PublishableFeed {
+  category: string;
+  updated_at: string;
+  articles: Array<{published_at: string}>;
+  [field: string]: any;
+}
+
+export interface FeedShard {
+  // UTC day of publication, YYYY-MM-DD
+  date: string;
+  path: string;
+  url: string;
+  article_count: number;
+}
+
+export interface FeedManifest {
+  schema_version?: number;
+  category: string;
+  updated_at: string;
+  total_articles: number;
+  // Newest day first
+  shards: FeedShard[];
+}
+
+const FEED_CACHE_CONTROL = "public, max-age=300";
+
+// Parsed feed files kept across invocations of a warm instance
+const feedCache = new Map<string, {generation: string; data: any}>();
+
+export function categoryFilePath(category: string): string {
+  return `news/news_${category}.json`;
+}
+
+function manifestPath(category: string): string {
+  return `news/manifest_${category}.json`;
+}
+
+function shardPrefix(category: string): string {
+  return `news/shards/${category}/`;
+}
+
+// Shards are opt-in while the app still reads the single file
+function shardsEnabled(): boolean {
+  return process.env.PUBLISH_FEED_SHARDS === "true";
+}
+
+/**
+ * Writes minified JSON gzip-compressed with `contentEncoding: gzip`, so
+ * Storage serves it compressed to clients that accept it and transcodes it
+ * for those that do not.
+ */
+async function saveGzippedJSON(fileName: string, data: unknown, cacheControl: string) {
+  const file = admin.storage().bucket().file(fileName);
+  await file.save(zlib.gzipSync(JSON.stringify(data)), {
+    contentType: "application/json",
+    resumable: false,
+    metadata: {
+      contentEncoding: "gzip",
+      cacheControl,
+    },
+  });
+  await file.makePublic();
+}
+
+async function publishShards(feed: PublishableFeed): Promise<FeedManifest> {
+  const bucket = admin.storage().bucket();
+  const byDate = new Map<string, PublishableFeed["articles"]>();
+  for (const article of feed.articles) {
+    const publishedAt = new Date(article.published_at);
+    const date = isNaN(publishedAt.getTime()) ? "undated" : publishedAt.toISOString().substring(0, 10);
+    if (!byDate.has(date)) byDate.set(date, []);
+    byDate.get(date).push(article);
+  }
+
+  const shards: FeedShard[] = [];
+  for (const [date, articles] of Array.from(byDate.entries()).sort(([a], [b]) => b.localeCompare(a))) {
+    const path = `${shardPrefix(feed.category)}${date}.json`;
+    await saveGzippedJSON(path, {...feed, date, articles}, FEED_CACHE_CONTROL);
+    shards.push({date, path, url: publicUrlFor(bucket.name, path), article_count: articles.length});
+  }
+
+  // Days that dropped out of the feed
+  const [existing] = await bucket.getFiles({prefix: shardPrefix(feed.category)});
+  const current = new Set(shards.map((shard) => shard.path));
+  await Promise.all(existing.filter((file) => !current.has(file.name)).map((file) => file.delete({ignoreNotFound: true})));
+
+  const manifest: FeedManifest = {
+    schema_version: feed.schema_version,
+    category: feed.category,
+    updated_at: feed.updated_at,
+    total_articles: feed.articles.length,
+    shards,
+  };
+  await saveGzippedJSON(manifestPath(feed.category), manifest, "public, max-age=60");
+  return manifest;
+}
+
+/**
+ * Publishes a category feed as one gzipped file and, when enabled, as
+ * per-day shards listed in `news/manifest_<category>.json`. Returns the
+ * public URL of the single file.
+ */
+export async function publishFeed(feed: PublishableFeed, logger: PipelineLogger = new PipelineLogger()): Promise<string> {
+  const fileName = categoryFilePath(feed.category);
+  await saveGzippedJSON(fileName, feed, FEED_CACHE_CONTROL);
+
+  if (shardsEnabled()) {
+    const manifest = await publishShards(feed);
+    logger.info(`Published ${manifest.shards.length} shards for ${feed.category}`);
+  }
+
+  return publicUrlFor(admin.storage().bucket().name, fileName);
+}
+
+/**
+ * Reads and parses a published feed file, reusing the parsed copy while the
+ * object's generation is unchanged. Handles both the gzipped files and the
+ * plain ones written before compression. Returns null when the file does
+ * not exist.
+ */
+export async function readFeedFile<T = any>(fileName: string): Promise<T | null> {
+  const bucket = admin.storage().bucket();
+
+  let generation: string;
+  try {
+    const [metadata] = await bucket.file(fileName).getMetadata();
+    generation = String(metadata.generation);
+  } catch (error) {
+    if (isNotFound(error)) return null;
+    throw error;
+  }
+
+  const cached = feedCache.get(fileName);
+  if (cached && cached.generation === generation) {
+    return cached.data;
+  }
+
+  let data: Buffer;
+  try {
+    // Pinned to the generation just checked, so the cache key stays honest
+    [data] = await bucket.file(fileName, {generation}).download();
+  } catch (error) {
+    // Replaced between the two calls: start over with the new generation
+    if (isNotFound(error)) return readFeedFile<T>(fileName);
+    throw error;
+  }
+
+  // The client normally decompresses; this covers it not doing so
+  const json = data[0] === 0x1f && data[1] === 0x8b ? zlib.gunzipSync(data) : data;
+  const parsed = JSON.parse(json.toString());
+  feedCache.set(fileName, {generation, data: parsed});
+  return parsed;
+}
+
+export function readCategoryFeed<T = any>(category: string): Promise<T | null> {
+  return readFeedFile<T>(categoryFilePath(category));
+}
@@ -0,0 +1,193 @@
+import * as functions from "firebase-functions";
+import {PUBLISHED_CATEGORIES} from "./source-registry";
+import {PipelineLogger} from "./pipeline-logger";
+
+const logger = new PipelineLogger();
+
+/**
+ * Every error an endpoint can answer with. `code` is what clients branch
+ * on; `error` is the short human-readable title sent alongside it.
+ */
+export const ERROR_CATALOGUE = {
+  invalid_parameter: {status: 400, error: "Invalid parameter"},
+  invalid_category: {status: 400, error: "Invalid category"},
+  invalid_body: {status: 400, error: "Invalid request body"},
+  unauthorized: {status: 401, error: "Unauthorized"},
+  forbidden: {status: 403, error: "Forbidden"},
+  not_found: {status: 404, error: "Not found"},
+  method_not_allowed: {status: 405, error: "Method not allowed"},
+  conflict: {status: 409, error: "Conflict"},
+  internal: {status: 500, error: "Internal server error"},
+};
+
+export type ErrorCode = keyof typeof ERROR_CATALOGUE;
+
+/** Thrown inside an endpoint to answer with a catalogued error. */
+export class HttpError extends Error {
+  readonly code: ErrorCode;
+  readonly details: Record<string, unknown>;
+
+  constructor(code: ErrorCode, message: string, details: Record<string, unknown> = {}) {
+    super(message);
+    this.name = "HttpError";
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export function sendError(
+  res: functions.Response,
+  code: ErrorCode,
+  message: string,
+  details: Record<string, unknown> = {}
+) {
+  const {status, error} = ERROR_CATALOGUE[code];
+  res.status(status).json({error, code, message, ...details});
+}
+
+function invalidParameter(name: string, message: string): HttpError {
+  return new HttpError("invalid_parameter", message, {parameter: name});
+}
+
+function rawQueryValue(req: functions.https.Request, name: string): string | undefined {
+  const value = req.query[name];
+  if (value === undefined) return undefined;
+  // ?a=1&a=2 arrives as an array
+  if (typeof value !== "string") throw invalidParameter(name, `${name} must be given once`);
+  return value;
+}
+
+export function queryString(
+  req: functions.https.Request,
+  name: string,
+  options: {required?: boolean; minLength?: number; maxLength?: number} = {}
+): string | undefined {
+  const value = rawQueryValue(req, name)?.trim();
+  if (!value) {
+    if (options.required) throw invalidParameter(name, `${name} is required`);
+    return undefined;
+  }
+
+  const {minLength = 1, maxLength = 500} = options;
+  if (value.length < minLength || value.length > maxLength) {
+    throw invalidParameter(name, `${name} must be ${minLength}-${maxLength} characters`);
+  }
+  return value;
+}
+
+export function queryInt(
+  req: functions.https.Request,
+  name: string,
+  options: {default: number; min: number; max: number}
+): number {
+  const value = rawQueryValue(req, name)?.trim();
+  if (!value) return options.default;
+
+  const parsed = /^-?\d+$/.test(value) ? parseInt(value, 10) : NaN;
+  if (isNaN(parsed) || parsed < options.min || parsed > options.max) {
+    throw invalidParameter(name, `${name} must be an integer ${options.min}-${options.max}`);
+  }
+  return parsed;
+}
+
+/** true/false or 1/0. */
+export function queryBoolean(req: functions.https.Request, name: string, defaultValue: boolean): boolean {
+  const value = rawQueryValue(req, name)?.trim().toLowerCase();
+  if (!value) return defaultValue;
+
+  if (value === "true" || value === "1") return true;
+  if (value === "false" || value === "0") return false;
+  throw invalidParameter(name, `${name} must be true or false`);
+}
+
+/** An ISO 8601 date as epoch milliseconds. */
+export function queryDate(req: functions.https.Request, name: string): number | undefined {
+  const value = rawQueryValue(req, name)?.trim();
+  if (!value) return undefined;
+
+  const time = new Date(value).getTime();
+  if (isNaN(time)) throw invalidParameter(name, `${name} must be an ISO 8601 date`);
+  return time;
+}
+
+/** A comma-separated list, deduplicated. */
+export function queryList(req: functions.https.Request, name: string, options: {max: number}): string[] | undefined {
+  const value = rawQueryValue(req, name);
+  if (value === undefined || value.trim() === "") return undefined;
+
+  const items = Array.from(new Set(value.split(",").map((item) => item.trim()).filter((item) => item.length > 0)));
+  if (items.length > options.max) {
+    throw invalidParameter(name, `At most ${options.max} values for ${name}`);
+  }
+  return items;
+}
+
+/**
+ * The `category` parameter, checked against the categories the pipeline
+ * publishes (or a narrower `allowed` list).
+ */
+export function queryCategory(
+  req: functions.https.Request,
+  options: {default?: string; allowed?: string[]} = {}
+): string | undefined {
+  const allowed = options.allowed || PUBLISHED_CATEGORIES;
+  const category = queryString(req, "category", {maxLength: 50}) || options.default;
+  if (category !== undefined && !allowed.includes(category)) {
+    throw new HttpError("invalid_category", `category must be one of: ${allowed.join(", ")}`, {
+      parameter: "category",
+      validCategories: allowed,
+    });
+  }
+  return category;
+}
+
+export interface EndpointOptions {
+  // Used in error logs
+  name: string;
+  methods: string[];
+  allowHeaders?: string[];
+  exposeHeaders?: string[];
+}
+
+/**
+ * Wraps an HTTPS handler with the behaviour every endpoint shares: CORS
+ * headers, 204 for preflight, 405 for other methods, and HttpErrors (or
+ * anything unexpected, as a 500) turned into catalogued error bodies.
+ */
+export function httpEndpoint(
+  options: EndpointOptions,
+  handler: (req: functions.https.Request, res: functions.Response) => Promise<void>
+): (req: functions.https.Request, res: functions.Response) => Promise<void> {
+  const methods = options.methods.includes("GET") ? [...options.methods, "HEAD"] : options.methods;
+
+  return async (req, res) => {
+    res.set("Access-Control-Allow-Origin", "*");
+    res.set("Access-Control-Allow-Methods", options.methods.join(", "));
+    res.set("Access-Control-Allow-Headers", ["Content-Type", ...(options.allowHeaders || [])].join(", "));
+    if (options.exposeHeaders) {
+      res.set("Access-Control-Expose-Headers", options.exposeHeaders.join(", "));
+    }
+
+    if (req.method === "OPTIONS") {
+      res.status(204).send("");
+      return;
+    }
+
+    if (!methods.includes(req.method)) {
+      sendError(res, "method_not_allowed", `Use ${options.methods.join(" or ")}`);
+      return;
+    }
+
+    try {
+      await handler(req, res);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendError(res, error.code, error.message, error.details);
+        return;
+      }
+
+      logger.error(`${options.name} error`, error, {method: req.method, path: req.path});
+      sendError(res, "internal", error instanceof Error ? error.message : String(error));
+    }
+  };
+}
@@ -0,0 +1,346 @@
+import * as admin from "firebase-admin";
+import axios from "axios";
+import * as crypto from "crypto";
+import * as cheerio from "cheerio";
+import sharp from "sharp";
+import {PipelineLogger} from "./pipeline-logger";
+import {publicUrlFor} from "./shared-helpers";
+
+export interface ImageCandidate {
+  url: string;
+  // Declared by the feed or page, when known
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Runs an HTTP request to `url`, typically under a per-host limit shared
+ * with the rest of the pipeline.
+ */
+export type RequestLimiter = <T>(url: string, request: () => Promise<T>) => Promise<T>;
+
+const unlimited: RequestLimiter = (url, request) => request();
+
+export interface ProcessedImage {
+  // Our resized copy in the Storage bucket
+  thumbnail: string;
+  // Where the image was taken from
+  source: string;
+  width: number;
+  height: number;
+}
+
+const THUMBNAIL_WIDTH = 800;
+const THUMBNAIL_HEIGHT = 450;
+const THUMBNAIL_QUALITY = 80;
+const THUMBNAIL_PREFIX = "images/thumbnails";
+// Unreferenced thumbnails younger than this are kept: a run in progress may
+// not have published them yet, and clients may still show cached feeds
+const THUMBNAIL_GRACE_MS = 24 * 60 * 60 * 1000;
+
+// Logos, tracking pixels and avatars are smaller than this
+const MIN_IMAGE_WIDTH = 300;
+const MIN_IMAGE_HEIGHT = 150;
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+// Candidates tried per article before giving up
+const MAX_ATTEMPTS = 3;
+
+const IMAGE_HEADERS = {
+  "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+  "Accept": "image/avif,image/webp,image/png,image/jpeg,image/*;q=0.8",
+};
+
+// Paths that are never the article's picture
+const UNLIKELY_IMAGE = /logo|favicon|sprite|placeholder|blank\.gif|pixel|spacer|avatar|icon[-_]|\/icons?\//i;
+
+/**
+ * Resolves an image URL found in a feed or page against `base`, including
+ * protocol-relative and relative paths. Returns null for data: URIs and
+ * anything else that is not http(s).
+ */
+export function resolveImageUrl(raw: unknown, base?: string): string | null {
+  if (typeof raw !== "string" || raw.trim() === "") return null;
+
+  try {
+    const resolved = new URL(raw.trim(), base);
+    if (resolved.protocol !== "http:" && resolved.protocol !== "https:") return null;
+    resolved.hash = "";
+    return resolved.toString();
+  } catch {
+    return null;
+  }
+}
+
+function toNumber(value: unknown): number | undefined {
+  const parsed = parseInt(String(value ?? ""), 10);
+  return isNaN(parsed) || parsed <= 0 ? undefined : parsed;
+}
+
+/**
+ * Parses a `srcset` attribute. Width descriptors are kept as widths;
+ * density descriptors ("2x") are scaled from `baseWidth` when known.
+ */
+export function parseSrcset(srcset: string | undefined, base: string, baseWidth?: number): ImageCandidate[] {
+  if (!srcset) return [];
+
+  return srcset.split(/,\s+/).flatMap((entry) => {
+    const [rawUrl, descriptor] = entry.trim().split(/\s+/);
+    const url = resolveImageUrl(rawUrl, base);
+    if (!url) return [];
+
+    const widthMatch = descriptor?.match(/^(\d+)w$/);
+    if (widthMatch) return [{url, width: parseInt(widthMatch[1], 10)}];
+
+    const densityMatch = descriptor?.match(/^([\d.]+)x$/);
+    if (densityMatch && baseWidth) return [{url, width: Math.round(baseWidth * parseFloat(densityMatch[1]))}];
+
+    return [{url, width: baseWidth}];
+  });
+}
+
+function area(candidate: ImageCandidate): number {
+  return (candidate.width || 0) * (candidate.height || Math.round((candidate.width || 0) * 9 / 16));
+}
+
+/**
+ * Drops duplicates and unlikely images, then orders the rest largest first.
+ * Candidates without declared sizes keep their relative order after the
+ * sized ones, since the first declared image is usually the lead picture.
+ */
+export function rankImageCandidates(candidates: ImageCandidate[]): ImageCandidate[] {
+  const byUrl = new Map<string, ImageCandidate>();
+  for (const candidate of candidates) {
+    if (UNLIKELY_IMAGE.test(candidate.url)) continue;
+    const existing = byUrl.get(candidate.url);
+    if (!existing || area(candidate) > area(existing)) {
+      byUrl.set(candidate.url, candidate);
+    }
+  }
+
+  return Array.from(byUrl.values())
+    .map((candidate, index) => ({candidate, index}))
+    .sort((a, b) => area(b.candidate) - area(a.candidate) || a.index - b.index)
+    .map(({candidate}) => candidate);
+}
+
+function asArray(value: any): any[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function isImageMedia(media: any): boolean {
+  const type = media?.["@_type"];
+  const medium = media?.["@_medium"];
+  if (medium) return medium === "image";
+  return !type || String(type).startsWith("image/");
+}
+
+function imagesInHtml(html: unknown, base: string): ImageCandidate[] {
+  if (typeof html !== "string" || !html.includes("<img")) return [];
+
+  const $ = cheerio.load(html);
+  return $("img").toArray().flatMap((node) => {
+    const $img = $(node);
+    const width = toNumber($img.attr("width"));
+    const src = resolveImageUrl($img.attr("src") || $img.attr("data-src"), base);
+    return [
+      ...(src ? [{url: src, width, height: toNumber($img.attr("height"))}] : []),
+      ...parseSrcset($img.attr("srcset") || $img.attr("data-srcset"), base, width),
+    ];
+  });
+}
+
+/** Every image an RSS/Atom item offers, largest first. */
+export function feedImageCandidates(item: any, feedUrl: string): ImageCandidate[] {
+  const candidates: ImageCandidate[] = [];
+
+  const media = [
+    ...asArray(item["media:content"]),
+    ...asArray(item["media:group"]).flatMap((group) => asArray(group?.["media:content"])),
+  ];
+  for (const entry of media) {
+    if (!isImageMedia(entry)) continue;
+    const url = resolveImageUrl(entry?.["@_url"], feedUrl);
+    if (url) candidates.push({url, width: toNumber(entry["@_width"]), height: toNumber(entry["@_height"])});
+  }
+
+  for (const enclosure of asArray(item.enclosure)) {
+    if (!isImageMedia(enclosure)) continue;
+    const url = resolveImageUrl(enclosure?.["@_url"], feedUrl);
+    if (url) candidates.push({url});
+  }
+
+  for (const thumbnail of asArray(item["media:thumbnail"])) {
+    const url = resolveImageUrl(thumbnail?.["@_url"], feedUrl);
+    if (url) candidates.push({url, width: toNumber(thumbnail["@_width"]), height: toNumber(thumbnail["@_height"])});
+  }
+
+  for (const field of [item.image, item.thumbnail]) {
+    const url = resolveImageUrl(typeof field === "string" ? field : field?.url || field?.["@_url"], feedUrl);
+    if (url) candidates.push({url});
+  }
+
+  candidates.push(...imagesInHtml(item["content:encoded"], feedUrl), ...imagesInHtml(item.description, feedUrl));
+
+  return rankImageCandidates(candidates);
+}
+
+/** Every image a scraped article page offers, largest first. */
+export function pageImageCandidates($: cheerio.CheerioAPI, pageUrl: string): ImageCandidate[] {
+  const candidates: ImageCandidate[] = [];
+
+  const ogWidth = toNumber($("meta[property='og:image:width']").attr("content"));
+  const ogHeight = toNumber($("meta[property='og:image:height']").attr("content"));
+  for (const selector of ["meta[property='og:image:secure_url']", "meta[property='og:image']"]) {
+    const url = resolveImageUrl($(selector).attr("content"), pageUrl);
+    if (url) candidates.push({url, width: ogWidth, height: ogHeight});
+  }
+
+  const twitterImage = resolveImageUrl(
+    $("meta[name='twitter:image']").attr("content") || $("meta[name='twitter:image:src']").attr("content"),
+    pageUrl
+  );
+  if (twitterImage) candidates.push({url: twitterImage});
+
+  const imageSrc = resolveImageUrl($("link[rel='image_src']").attr("href"), pageUrl);
+  if (imageSrc) candidates.push({url: imageSrc});
+
+  const bodyImages = $("article img, figure img, .article-image img, .featured-image img, .wp-post-image, img[class*='hero'], img[class*='cover']")
+    .slice(0, 5);
+  for (const node of bodyImages.toArray()) {
+    const $img = $(node);
+    const width = toNumber($img.attr("width"));
+    const src = resolveImageUrl($img.attr("data-src") || $img.attr("src"), pageUrl);
+    if (src) candidates.push({url: src, width, height: toNumber($img.attr("height"))});
+    candidates.push(...parseSrcset($img.attr("data-srcset") || $img.attr("srcset"), pageUrl, width));
+  }
+
+  for (const node of $("picture source").slice(0, 5).toArray()) {
+    candidates.push(...parseSrcset($(node).attr("srcset"), pageUrl));
+  }
+
+  return rankImageCandidates(candidates);
+}
+
+// HEAD first so HTML error pages and huge files are never downloaded
+async function isFetchableImage(url: string, limitRequest: RequestLimiter): Promise<boolean> {
+  try {
+    const response = await limitRequest(url, () =>
+      axios.head(url, {timeout: 5000, headers: IMAGE_HEADERS, maxRedirects: 5})
+    );
+    const contentType = String(response.headers["content-type"] || "");
+    const contentLength = parseInt(String(response.headers["content-length"] || "0"), 10);
+
+    if (contentType && !contentType.startsWith("image/")) return false;
+    if (contentLength > MAX_IMAGE_BYTES) return false;
+    return true;
+  } catch (error) {
+    // Plenty of CDNs reject HEAD; let the download decide
+    return axios.isAxiosError(error) && (error.response?.status === 405 || error.response?.status === 403);
+  }
+}
+
+// The content hash gives a reprocessed article a new URL, so the long
+// immutable cache never serves its previous thumbnail
+function thumbnailPath(articleId: string, image: Buffer): string {
+  const hash = crypto.createHash("sha256").update(image).digest("hex").substring(0, 12);
+  return `${THUMBNAIL_PREFIX}/${articleId}-${hash}.jpg`;
+}
+
+async function createThumbnail(
+  candidate: ImageCandidate,
+  articleId: string,
+  limitRequest: RequestLimiter
+): Promise<ProcessedImage | null> {
+  if (!(await isFetchableImage(candidate.url, limitRequest))) return null;
+
+  const response = await limitRequest(candidate.url, () => axios.get(candidate.url, {
+    timeout: 10000,
+    headers: IMAGE_HEADERS,
+    responseType: "arraybuffer",
+    maxContentLength: MAX_IMAGE_BYTES,
+  }));
+
+  const input = Buffer.from(response.data);
+  const metadata = await sharp(input).metadata();
+  const width = metadata.width || 0;
+  const height = metadata.height || 0;
+  if (width < MIN_IMAGE_WIDTH || height < MIN_IMAGE_HEIGHT) return null;
+
+  const output = await sharp(input)
+    .rotate()
+    .resize(THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT, {fit: "cover", position: "attention", withoutEnlargement: false})
+    .jpeg({quality: THUMBNAIL_QUALITY, progressive: true, mozjpeg: true})
+    .toBuffer();
+
+  const bucket = admin.storage().bucket();
+  const fileName = thumbnailPath(articleId, output);
+  // Readable through storage.rules and the ?alt=media URL; no per-object
+  // ACL, which buckets with uniform access reject
+  await bucket.file(fileName).save(output, {
+    contentType: "image/jpeg",
+    metadata: {
+      cacheControl: "public, max-age=604800, immutable",
+      metadata: {source_url: candidate.url},
+    },
+  });
+
+  return {thumbnail: publicUrlFor(bucket.name, fileName), source: candidate.url, width, height};
+}
+
+/**
+ * Tries the candidates in order until one is a real image of card size,
+ * and stores an 800x450 JPEG of it in the bucket. Returns null when no
+ * candidate qualifies, so the app shows its own placeholder instead of a
+ * broken or tiny picture. Image requests go through `limitRequest`.
+ */
+export async function processArticleImage(
+  candidates: ImageCandidate[],
+  articleId: string,
+  logger: PipelineLogger = new PipelineLogger(),
+  limitRequest: RequestLimiter = unlimited
+): Promise<ProcessedImage | null> {
+  // Declared sizes that are too small are trusted: no need to download them
+  const usable = candidates.filter((candidate) =>
+    !(candidate.width && candidate.width < MIN_IMAGE_WIDTH) &&
+    !(candidate.height && candidate.height < MIN_IMAGE_HEIGHT)
+  );
+
+  for (const candidate of usable.slice(0, MAX_ATTEMPTS)) {
+    try {
+      const processed = await createThumbnail(candidate, articleId, limitRequest);
+      if (processed) return processed;
+    } catch (error) {
+      logger.warn("Image candidate failed", {
+        article_id: articleId,
+        image_url: candidate.url,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return null;
+}
+
+/**
+ * Deletes thumbnails that none of `referencedUrls` (the images of every
+ * published article) points to, once past the grace period. Retried
+ * articles get a new content-hashed file, so without this the bucket only
+ * grows. Returns how many were deleted.
+ */
+export async function pruneThumbnails(
+  referencedUrls: Set<string>,
+  logger: PipelineLogger = new PipelineLogger(),
+  now: number = Date.now()
+): Promise<number> {
+  const bucket = admin.storage().bucket();
+  const [files] = await bucket.getFiles({prefix: `${THUMBNAIL_PREFIX}/`});
+
+  const stale = files.filter((file) =>
+    !referencedUrls.has(publicUrlFor(bucket.name, file.name)) &&
+    now - new Date(file.metadata.timeCreated).getTime() > THUMBNAIL_GRACE_MS
+  );
+  await Promise.all(stale.map((file) => file.delete({ignoreNotFound: true})));
+
+  logger.info(`Pruned ${stale.length} unreferenced thumbnails`, {kept: files.length - stale.length});
+  return stale.length;
+}
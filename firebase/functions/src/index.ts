@@ -3,7 +3,19 @@ import * as admin from "firebase-admin";
 admin.initializeApp();
 
 export {newsAggregatorCron, runBackendManual} from "./cron-job";
+export {processCategoryJob, aggregatePipelineRun} from "./pipeline-jobs";
 export {getShuffledNews, getShuffledNewsPaginated} from "./shuffle-endpoint";
+export {searchNews} from "./search-endpoint";
+export {getPersonalizedFeed} from "./personalized-feed-endpoint";
+export {getNewsSince} from "./news-since-endpoint";
+export {getPipelineStatus} from "./pipeline-status-endpoint";
+export {
+  listNewsSources,
+  addNewsSource,
+  updateNewsSource,
+  disableNewsSource,
+  getSourceHealth,
+} from "./source-admin-endpoint";
 
 
 
@@ -0,0 +1,88 @@
+export type SupportedLanguage = "it" | "en";
+
+const STOP_WORDS: Record<SupportedLanguage, Set<string>> = {
+  it: new Set([
+    "a", "ad", "agli", "ai", "al", "alla", "alle", "allo", "anche", "ancora", "che", "chi", "ci", "come",
+    "con", "cui", "da", "dagli", "dai", "dal", "dalla", "dalle", "dallo", "degli", "dei", "del", "della",
+    "delle", "dello", "di", "dopo", "dove", "e", "ed", "era", "essere", "fa", "fino", "gli", "già", "ha",
+    "hanno", "ho", "i", "il", "in", "io", "la", "le", "lei", "lo", "loro", "lui", "ma", "mentre", "mi",
+    "molto", "ne", "negli", "nei", "nel", "nella", "nelle", "nello", "noi", "non", "nostro", "o", "ogni",
+    "oggi", "ora", "per", "perché", "più", "poi", "prima", "può", "quale", "quando", "quanto", "quella",
+    "quelle", "quelli", "quello", "questa", "queste", "questi", "questo", "qui", "se", "sempre", "senza",
+    "si", "sia", "siamo", "sono", "sta", "stata", "stati", "stato", "su", "sua", "sue", "sugli", "sui",
+    "sul", "sulla", "sulle", "suo", "suoi", "tra", "fra", "tutti", "tutto", "un", "una", "uno", "vi",
+    "viene", "è", "anni", "fatto", "secondo", "contro", "tutta",
+  ]),
+  en: new Set([
+    "a", "about", "after", "all", "also", "an", "and", "any", "are", "as", "at", "be", "been", "before",
+    "but", "by", "can", "could", "did", "do", "does", "for", "from", "had", "has", "have", "he", "her",
+    "his", "how", "i", "if", "in", "into", "is", "it", "its", "just", "more", "most", "new", "no", "not",
+    "of", "on", "one", "or", "other", "our", "out", "over", "said", "says", "she", "so", "some", "than",
+    "that", "the", "their", "them", "then", "there", "these", "they", "this", "to", "up", "was", "we",
+    "were", "what", "when", "which", "who", "will", "with", "would", "you",
+  ]),
+};
+
+// Words common in one language that also occur in the other are ignored
+const AMBIGUOUS = new Set(["a", "i", "in", "no", "e", "o", "se", "as", "do", "is", "on", "so", "he"]);
+
+export function getStopWords(language: string | null | undefined): Set<string> {
+  if (language === "it" || language === "en") {
+    return STOP_WORDS[language];
+  }
+  return new Set<string>();
+}
+
+export function tokenizeWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[’`]/g, "'")
+    .split(/[^a-z0-9\u00e0-\u00ff']+/)
+    .map((word) => word.replace(/^'+|'+$/g, ""))
+    .filter((word) => word.length > 0);
+}
+
+/**
+ * Light suffix stripping so "governo"/"governi", "amico"/"amiche" or
+ * "elections"/"election" share a stem. Words of four letters or fewer are
+ * left alone.
+ */
+export function stemWord(word: string, language: string | null | undefined): string {
+  if (word.length <= 4) return word;
+
+  if (language === "it") {
+    return word
+      .replace(/(issim[oaie]|mente)$/, "")
+      .replace(/zion[ei]$/, "zion")
+      // Plurals that gain an h: "amiche" -> "amic", "laghi" -> "lag"
+      .replace(/([cg])h[ei]$/, "$1")
+      .replace(/[aeiou\u00e0\u00e8\u00e9\u00ec\u00f2\u00f9]$/, "");
+  }
+  if (language === "en") return word.replace(/(ing|ed|es|s)$/, "");
+  return word;
+}
+
+/**
+ * Guesses the language of a text from stop-word frequency. Returns null when
+ * the text is too short or neither language clearly wins, so callers can
+ * fall back to the source's configured language.
+ */
+export function detectLanguage(text: string): SupportedLanguage | null {
+  const words = tokenizeWords(text.substring(0, 5000))
+    // Elided articles: "l'ultimo" -> "l", "dell'anno" -> "dell"
+    .flatMap((word) => word.split("'"));
+
+  const scores: Record<SupportedLanguage, number> = {it: 0, en: 0};
+  for (const word of words) {
+    if (AMBIGUOUS.has(word)) continue;
+    if (STOP_WORDS.it.has(word)) scores.it++;
+    if (STOP_WORDS.en.has(word)) scores.en++;
+  }
+
+  const total = scores.it + scores.en;
+  if (total < 3) return null;
+
+  if (scores.it >= scores.en * 2) return "it";
+  if (scores.en >= scores.it * 2) return "en";
+  return null;
+}
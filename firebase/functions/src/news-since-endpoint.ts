@@ -0,0 +1,114 @@
+import * as functions from "firebase-functions";
+import {loadChangeLog, removedIdsSince} from "./change-log";
+import {readCategoryFeed} from "./feed-storage";
+import {GENERAL_CATEGORY} from "./source-registry";
+import {HttpError, httpEndpoint, queryCategory, queryDate, queryString} from "./http-helpers";
+import {PipelineLogger} from "./pipeline-logger";
+
+const logger = new PipelineLogger();
+
+interface Article {
+  id?: string;
+  url: string;
+  published_at: string;
+  modified_at?: string;
+  [field: string]: any;
+}
+
+interface CategoryJSON {
+  schema_version?: number;
+  category: string;
+  updated_at: string;
+  articles: Article[];
+}
+
+// The version token is the category's updated_at in epoch milliseconds
+function versionToken(categoryData: CategoryJSON): string {
+  return String(new Date(categoryData.updated_at).getTime());
+}
+
+function etagFor(category: string, version: string): string {
+  return `"${category}-${version}"`;
+}
+
+/**
+ * Reads the instant a client last synced from `since` (ISO 8601), `version`
+ * (a token from an earlier response) or an If-None-Match ETag for the same
+ * category. Returns undefined when none is given.
+ */
+function parseSince(req: functions.https.Request, category: string): number | undefined {
+  const since = queryDate(req, "since");
+  if (since !== undefined) return since;
+
+  const version = queryString(req, "version", {maxLength: 20});
+  if (version) {
+    if (!/^\d+$/.test(version)) {
+      throw new HttpError("invalid_parameter", "version must be a token from an earlier response", {parameter: "version"});
+    }
+    return parseInt(version, 10);
+  }
+
+  const ifNoneMatch = req.get("If-None-Match");
+  if (ifNoneMatch) {
+    const match = ifNoneMatch.replace(/^W\//, "").match(/^"([a-z]+)-(\d+)"$/);
+    // An ETag from another category says nothing about this one
+    return match && match[1] === category ? parseInt(match[2], 10) : undefined;
+  }
+
+  return undefined;
+}
+
+export const getNewsSince = functions
+  .runWith({
+    timeoutSeconds: 60,
+    memory: "256MB",
+  })
+  .https.onRequest(httpEndpoint({
+    name: "Delta endpoint",
+    methods: ["GET"],
+    allowHeaders: ["If-None-Match"],
+    exposeHeaders: ["ETag"],
+  }, async (req, res) => {
+    const category = queryCategory(req, {default: GENERAL_CATEGORY});
+    const since = parseSince(req, category);
+
+    const categoryData = await readCategoryFeed<CategoryJSON>(category);
+    if (!categoryData) {
+      throw new HttpError("not_found", `No articles found for category: ${category}`);
+    }
+    const version = versionToken(categoryData);
+    const etag = etagFor(category, version);
+
+    res.set("ETag", etag);
+    res.set("Cache-Control", "private, max-age=0, must-revalidate");
+
+    if (req.get("If-None-Match") === etag || (since !== undefined && since >= parseInt(version, 10))) {
+      res.status(304).send("");
+      return;
+    }
+
+    const removedIds = since === undefined ? null : removedIdsSince(await loadChangeLog(category), since);
+    // No starting point, or one older than the change log: send everything
+    const fullSync = removedIds === null;
+
+    const currentIds = new Set(categoryData.articles.map((article) => article.id || article.url));
+    const articles = fullSync ?
+      categoryData.articles :
+      categoryData.articles.filter((article) =>
+        new Date(article.modified_at || article.published_at).getTime() > since
+      );
+
+    logger.info("Delta served", {category, since: since ?? null, changed: articles.length, full_sync: fullSync});
+
+    res.status(200).json({
+      schema_version: categoryData.schema_version || 1,
+      category: categoryData.category,
+      updated_at: categoryData.updated_at,
+      version: version,
+      full_sync: fullSync,
+      articles: articles,
+      // Clients upsert `articles` by id and drop these
+      removed_ids: fullSync ? [] : removedIds.filter((id) => !currentIds.has(id)),
+      timestamp: new Date().toISOString(),
+    });
+  }));
@@ -0,0 +1,127 @@
+import * as functions from "firebase-functions";
+import {NEWS_CATEGORIES} from "./source-registry";
+import {readCategoryFeed} from "./feed-storage";
+import {HttpError, httpEndpoint} from "./http-helpers";
+import {FeedCandidate, FeedPreferences, rankFeed} from "./feed-ranking";
+import {PipelineLogger} from "./pipeline-logger";
+
+const logger = new PipelineLogger();
+
+const DEFAULT_LIMIT = 30;
+const MAX_LIMIT = 100;
+const MAX_SEEN_IDS = 2000;
+const MAX_MUTED = 100;
+const MAX_CATEGORY_WEIGHT = 10;
+
+function isStringArray(value: unknown, max: number): value is string[] {
+  return Array.isArray(value) && value.length <= max && value.every((item) => typeof item === "string");
+}
+
+function invalidBody(message: string): HttpError {
+  return new HttpError("invalid_body", message);
+}
+
+/** Checks the request body, throwing an invalid_body HttpError at the first problem. */
+function parsePreferences(body: unknown): {preferences: FeedPreferences; limit: number} {
+  if (body === undefined || body === null || body === "") body = {};
+  if (typeof body !== "object" || Array.isArray(body)) {
+    throw invalidBody("Body must be a JSON object");
+  }
+  const fields = body as Record<string, unknown>;
+
+  const weights = fields.category_weights ?? {};
+  if (typeof weights !== "object" || weights === null || Array.isArray(weights)) {
+    throw invalidBody("category_weights must be an object of category -> weight");
+  }
+  const categoryWeights: Record<string, number> = {};
+  for (const [category, weight] of Object.entries(weights)) {
+    if (!NEWS_CATEGORIES.includes(category)) {
+      throw invalidBody(`category_weights keys must be one of: ${NEWS_CATEGORIES.join(", ")}`);
+    }
+    if (typeof weight !== "number" || weight < 0 || weight > MAX_CATEGORY_WEIGHT) {
+      throw invalidBody(`category_weights values must be numbers 0-${MAX_CATEGORY_WEIGHT}`);
+    }
+    categoryWeights[category] = weight;
+  }
+
+  const mutedSources = fields.muted_sources ?? [];
+  const mutedKeywords = fields.muted_keywords ?? [];
+  const seenIds = fields.seen_ids ?? [];
+  if (!isStringArray(mutedSources, MAX_MUTED)) {
+    throw invalidBody(`muted_sources must be an array of at most ${MAX_MUTED} strings`);
+  }
+  if (!isStringArray(mutedKeywords, MAX_MUTED)) {
+    throw invalidBody(`muted_keywords must be an array of at most ${MAX_MUTED} strings`);
+  }
+  if (!isStringArray(seenIds, MAX_SEEN_IDS)) {
+    throw invalidBody(`seen_ids must be an array of at most ${MAX_SEEN_IDS} strings`);
+  }
+
+  const limit = fields.limit ?? DEFAULT_LIMIT;
+  if (typeof limit !== "number" || !Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw invalidBody(`limit must be an integer 1-${MAX_LIMIT}`);
+  }
+
+  return {
+    preferences: {
+      category_weights: categoryWeights,
+      muted_sources: mutedSources,
+      muted_keywords: mutedKeywords,
+      seen_ids: seenIds,
+    },
+    limit,
+  };
+}
+
+// Categories weighted 0 are not even downloaded
+async function loadCandidates(weights: Record<string, number>): Promise<FeedCandidate[]> {
+  const categories = NEWS_CATEGORIES.filter((category) => (weights[category] ?? 1) > 0);
+
+  const files = await Promise.all(categories.map(async (category) => {
+    const categoryData = await readCategoryFeed(category);
+    return {category, articles: categoryData?.articles || []};
+  }));
+
+  const byKey = new Map<string, FeedCandidate>();
+  for (const {category, articles} of files) {
+    for (const article of articles) {
+      const key = article.id || article.url;
+      const existing = byKey.get(key);
+      if (existing) {
+        existing.categories.push(category);
+      } else {
+        byKey.set(key, {article, categories: [category]});
+      }
+    }
+  }
+  return Array.from(byKey.values());
+}
+
+export const getPersonalizedFeed = functions
+  .runWith({
+    timeoutSeconds: 60,
+    memory: "512MB",
+  })
+  .https.onRequest(httpEndpoint({name: "Personalized feed", methods: ["POST"]}, async (req, res) => {
+    const {preferences, limit} = parsePreferences(req.body);
+
+    const candidates = await loadCandidates(preferences.category_weights);
+    const ranked = rankFeed(candidates, preferences, limit);
+
+    logger.info("Personalized feed served", {
+      returned: ranked.length,
+      candidates: candidates.length,
+      seen: preferences.seen_ids.length,
+    });
+
+    res.status(200).json({
+      articles: ranked.map((entry) => ({
+        ...entry.article,
+        category: entry.category,
+        score: Math.round(entry.score * 1000) / 1000,
+      })),
+      total: ranked.length,
+      total_candidates: candidates.length,
+      timestamp: new Date().toISOString(),
+    });
+  }));
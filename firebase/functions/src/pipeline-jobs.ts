@@ -0,0 +1,317 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import * as crypto from "crypto";
+import {getFunctions} from "firebase-admin/functions";
+import {NEWS_CATEGORIES} from "./source-registry";
+import {readCategoryFeed} from "./feed-storage";
+import {PipelineResult, buildAggregateFeeds, runCategoryPipeline} from "./unified-pipeline";
+import {buildRunRecord, runIdFor, saveRunRecord} from "./run-history";
+import {PipelineLogger} from "./pipeline-logger";
+import {errorCode, updateJSONFile} from "./shared-helpers";
+
+type JobStatus = "pending" | "running" | "done" | "failed";
+
+interface CategoryJobState {
+  status: JobStatus;
+  attempts: number;
+  started_at?: string;
+  finished_at?: string;
+  result?: PipelineResult;
+  error?: string;
+}
+
+export interface FanOutRun {
+  run_id: string;
+  created_at: string;
+  categories: Record<string, CategoryJobState>;
+  aggregation: {
+    status: JobStatus;
+    finished_at?: string;
+    results?: PipelineResult[];
+    // Categories still unfinished when the fallback aggregated without them
+    incomplete_categories?: string[];
+  };
+}
+
+// Task queues are named after the functions that consume them
+const CATEGORY_QUEUE = "processCategoryJob";
+const AGGREGATE_QUEUE = "aggregatePipelineRun";
+
+const JOBS_PREFIX = "pipeline/jobs/";
+const CATEGORY_JOB_MAX_ATTEMPTS = 3;
+// Aggregates even if a category job died on its last attempt without
+// reporting back; three 540s attempts with backoff fit well inside this
+const AGGREGATE_FALLBACK_DELAY_SECONDS = 45 * 60;
+
+const RUN_ID_PATTERN = /^[0-9TZ-]+$/;
+
+function jobPath(runId: string): string {
+  return `${JOBS_PREFIX}${runId}.json`;
+}
+
+// Cloud Tasks deduplicates on the id and wants them evenly spread, hence
+// the hash rather than the readable run id
+function taskId(runId: string, job: string): string {
+  return crypto.createHash("sha256").update(`${runId}:${job}`).digest("hex").substring(0, 32);
+}
+
+function isTerminal(status: JobStatus): boolean {
+  return status === "done" || status === "failed";
+}
+
+async function enqueueOnce(queue: string, data: Record<string, unknown>, id: string, scheduleDelaySeconds?: number) {
+  try {
+    await getFunctions().taskQueue(queue).enqueue(data, {id, scheduleDelaySeconds});
+  } catch (error) {
+    // Enqueued by an earlier delivery of the same job
+    if (errorCode(error) === "functions/task-already-exists") return;
+    throw error;
+  }
+}
+
+/** A run with every category pending. */
+export function createFanOutRun(runId: string, now: Date, categories: string[] = NEWS_CATEGORIES): FanOutRun {
+  return {
+    run_id: runId,
+    created_at: now.toISOString(),
+    categories: Object.fromEntries(categories.map((category) => [category, {status: "pending", attempts: 0}])),
+    aggregation: {status: "pending"},
+  };
+}
+
+/**
+ * Marks a category job as running. False when it already finished, so a
+ * redelivered task does nothing.
+ */
+export function claimCategoryJob(run: FanOutRun, category: string, now: Date): boolean {
+  const job = run.categories[category];
+  if (!job || isTerminal(job.status)) return false;
+  job.status = "running";
+  job.attempts++;
+  job.started_at = now.toISOString();
+  return true;
+}
+
+/** Records how a category job ended. True once every category has. */
+export function finishCategory(run: FanOutRun, category: string, state: Partial<CategoryJobState>, now: Date): boolean {
+  Object.assign(run.categories[category], state, {finished_at: now.toISOString()});
+  return Object.values(run.categories).every((job) => isTerminal(job.status));
+}
+
+/**
+ * Marks the aggregation as running and returns the categories it goes
+ * ahead without. False when it already finished, or when categories are
+ * still unfinished and this is not the fallback.
+ */
+export function claimAggregation(run: FanOutRun, fallback: boolean): string[] | false {
+  const unfinished = Object.entries(run.categories)
+    .filter(([, job]) => !isTerminal(job.status))
+    .map(([category]) => category);
+  if (run.aggregation.status === "done" || (unfinished.length > 0 && !fallback)) return false;
+  run.aggregation.status = "running";
+  return unfinished;
+}
+
+/**
+ * Applies `mutate` to the latest copy of a run record and saves it, retrying
+ * when another job saved in between. Returns whatever `mutate` returns;
+ * when that is false nothing is saved.
+ */
+async function updateFanOutRun<T>(runId: string, mutate: (run: FanOutRun) => T): Promise<T> {
+  let outcome: T;
+  await updateJSONFile<FanOutRun>(jobPath(runId), (run) => {
+    if (!run) throw new Error(`No job record for run ${runId}`);
+    outcome = mutate(run);
+    return outcome === false ? undefined : run;
+  });
+  return outcome;
+}
+
+/**
+ * Starts a run: records every category as pending, then enqueues one job
+ * per category plus a delayed fallback aggregation. Returns the run id.
+ */
+export async function startFanOutRun(now: Date = new Date()): Promise<string> {
+  const runId = runIdFor(now);
+
+  const run = createFanOutRun(runId, now);
+  await admin.storage().bucket().file(jobPath(runId)).save(JSON.stringify(run, null, 2), {
+    contentType: "application/json",
+    metadata: {
+      cacheControl: "no-cache",
+    },
+    preconditionOpts: {
+      ifGenerationMatch: 0,
+    },
+  });
+
+  await Promise.all(NEWS_CATEGORIES.map((category) =>
+    enqueueOnce(CATEGORY_QUEUE, {run_id: runId, category}, taskId(runId, category))
+  ));
+  await enqueueOnce(
+    AGGREGATE_QUEUE,
+    {run_id: runId, fallback: true},
+    taskId(runId, "aggregate-fallback"),
+    AGGREGATE_FALLBACK_DELAY_SECONDS
+  );
+
+  new PipelineLogger({run_id: runId}).info(`Enqueued ${NEWS_CATEGORIES.length} category jobs`);
+  return runId;
+}
+
+async function finishCategoryJob(
+  runId: string,
+  category: string,
+  state: Partial<CategoryJobState>,
+  logger: PipelineLogger
+) {
+  const allFinished = await updateFanOutRun(runId, (run) => finishCategory(run, category, state, new Date()));
+
+  if (allFinished) {
+    // Both of two jobs finishing together may get here; the task id
+    // lets only one aggregation through
+    await enqueueOnce(AGGREGATE_QUEUE, {run_id: runId}, taskId(runId, "aggregate"));
+    logger.info("All category jobs finished, aggregation enqueued");
+  }
+}
+
+export const processCategoryJob = functions
+  .runWith({
+    timeoutSeconds: 540,
+    memory: "1GB",
+  })
+  .tasks.taskQueue({
+    retryConfig: {
+      maxAttempts: CATEGORY_JOB_MAX_ATTEMPTS,
+      minBackoffSeconds: 60,
+    },
+    rateLimits: {
+      maxConcurrentDispatches: 3,
+    },
+  })
+  .onDispatch(async (data, context) => {
+    const runId = String(data?.run_id || "");
+    const category = String(data?.category || "");
+    const logger = new PipelineLogger({run_id: runId, category});
+    if (!RUN_ID_PATTERN.test(runId) || !NEWS_CATEGORIES.includes(category)) {
+      // Retrying would not make it valid
+      logger.error("Ignoring malformed category job", undefined, {data});
+      return;
+    }
+
+    const claimed = await updateFanOutRun(runId, (run) => claimCategoryJob(run, category, new Date()));
+    if (!claimed) {
+      logger.info(`${category} already finished, skipping redelivered job`);
+      return;
+    }
+
+    // An earlier attempt merged and published, then died before reporting
+    // back; merging this run's articles again is exactly what must not happen
+    const published = await readCategoryFeed<{run_id?: string; articles: unknown[]}>(category);
+    if (published?.run_id === runId) {
+      logger.info(`${category} already published by an earlier attempt`);
+      await finishCategoryJob(runId, category, {
+        status: "done",
+        result: {
+          category,
+          success: true,
+          total_articles: published.articles.length,
+          new_articles: 0,
+          removed_articles: 0,
+          local_path: "",
+          firebase_url: "",
+          verified: true,
+        },
+      }, logger);
+      return;
+    }
+
+    let result: PipelineResult | undefined;
+    let error: string | undefined;
+    const retry = context.retryCount > 0;
+    try {
+      const run = await runCategoryPipeline(category, runId, {retry});
+      result = run.results[0];
+      if (result && !result.success) error = result.error;
+      // A retry fetches every enabled source, so nothing at all means the
+      // category could not run rather than that it had nothing due
+      if (!result && retry) error = "No sources fetched on retry";
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    if (error === undefined) {
+      await finishCategoryJob(runId, category, {status: "done", result}, logger);
+      return;
+    }
+
+    if (context.retryCount + 1 < CATEGORY_JOB_MAX_ATTEMPTS) {
+      // Thrown so Cloud Tasks retries it
+      throw new Error(`${category} failed: ${error}`);
+    }
+    logger.error(`${category} failed after ${CATEGORY_JOB_MAX_ATTEMPTS} attempts`, error);
+    await finishCategoryJob(runId, category, {status: "failed", result, error}, logger);
+  });
+
+export const aggregatePipelineRun = functions
+  .runWith({
+    timeoutSeconds: 300,
+    memory: "1GB",
+  })
+  .tasks.taskQueue({
+    retryConfig: {
+      maxAttempts: 3,
+      minBackoffSeconds: 30,
+    },
+    rateLimits: {
+      maxConcurrentDispatches: 1,
+    },
+  })
+  .onDispatch(async (data) => {
+    const runId = String(data?.run_id || "");
+    const logger = new PipelineLogger({run_id: runId});
+    if (!RUN_ID_PATTERN.test(runId)) {
+      logger.error("Ignoring malformed aggregation job", undefined, {data});
+      return;
+    }
+
+    // Rebuilding from the published files is idempotent, so a retry after
+    // a crash simply builds again; only a finished aggregation is skipped
+    const incomplete = await updateFanOutRun(runId, (run) => claimAggregation(run, !!data.fallback));
+    if (incomplete === false) {
+      logger.info("Nothing to aggregate (already done or categories still running)");
+      return;
+    }
+
+    if (incomplete.length > 0) {
+      logger.warn("Aggregating without unfinished categories", {incomplete_categories: incomplete});
+    }
+
+    const aggregationStart = Date.now();
+    const results = await buildAggregateFeeds(logger);
+    const aggregationDurationMs = Date.now() - aggregationStart;
+
+    const run = await updateFanOutRun(runId, (run) => {
+      run.aggregation = {
+        status: results.every((result) => result.success) ? "done" : "failed",
+        finished_at: new Date().toISOString(),
+        results,
+        ...(incomplete.length > 0 ? {incomplete_categories: incomplete} : {}),
+      };
+      return run;
+    });
+    logger.info("Aggregation finished");
+
+    const categoryResults = Object.values(run.categories)
+      .map((job) => job.result)
+      .filter((result): result is PipelineResult => result !== undefined);
+    await saveRunRecord(buildRunRecord(runId, "fan_out", new Date(run.created_at), [...categoryResults, ...results], {
+      aggregationDurationMs,
+      errors: [
+        ...Object.entries(run.categories)
+          .filter(([, job]) => job.status === "failed" && !job.result)
+          .map(([category, job]) => `${category}: ${job.error}`),
+        ...incomplete.map((category) => `${category}: did not finish before the fallback aggregation`),
+      ],
+    }), logger);
+  });
@@ -0,0 +1,94 @@
+import {logger as functionsLogger} from "firebase-functions";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+// Fields Cloud Logging indexes on every entry a pipeline logger writes
+export interface LogContext {
+  run_id?: string;
+  category?: string;
+  source?: string;
+  article_url?: string;
+  step?: number;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = {debug: 0, info: 1, warn: 2, error: 3};
+
+const SEVERITY: Record<LogLevel, "DEBUG" | "INFO" | "WARNING" | "ERROR"> = {
+  debug: "DEBUG",
+  info: "INFO",
+  warn: "WARNING",
+  error: "ERROR",
+};
+
+/**
+ * LOG_LEVEL when set to a known level; otherwise debug in the emulator
+ * and info when deployed.
+ */
+export function configuredLogLevel(env: NodeJS.ProcessEnv = process.env): LogLevel {
+  const level = (env.LOG_LEVEL || "").toLowerCase();
+  if (level in LEVEL_ORDER) return level as LogLevel;
+  return env.FUNCTIONS_EMULATOR === "true" ? "debug" : "info";
+}
+
+function describeError(error: unknown): Record<string, unknown> {
+  if (error instanceof Error) {
+    return {error: error.message, stack: error.stack};
+  }
+  return {error: String(error)};
+}
+
+/**
+ * Writes one JSON entry per call, carrying the logger's context (run,
+ * category, source, article, step) so a run or an article can be followed
+ * across functions. `child` adds context; `step` also times the step.
+ */
+export class PipelineLogger {
+  private readonly context: LogContext;
+  private readonly minLevel: LogLevel;
+  private currentStep?: {message: string; startedAt: number};
+  readonly startedAt = Date.now();
+  readonly stepDurations: Record<string, number> = {};
+
+  constructor(context: LogContext = {}, minLevel: LogLevel = configuredLogLevel()) {
+    this.context = context;
+    this.minLevel = minLevel;
+  }
+
+  child(context: LogContext): PipelineLogger {
+    return new PipelineLogger({...this.context, ...context}, this.minLevel);
+  }
+
+  step(stepNum: number, message: string) {
+    this.endStep();
+    this.currentStep = {message, startedAt: Date.now()};
+    this.context.step = stepNum;
+    this.info(`Step ${stepNum}: ${message}`);
+  }
+
+  endStep() {
+    if (!this.currentStep) return;
+    this.stepDurations[this.currentStep.message] = Date.now() - this.currentStep.startedAt;
+    this.currentStep = undefined;
+  }
+
+  debug(message: string, fields?: Record<string, unknown>) {
+    this.write("debug", message, fields);
+  }
+
+  info(message: string, fields?: Record<string, unknown>) {
+    this.write("info", message, fields);
+  }
+
+  warn(message: string, fields?: Record<string, unknown>) {
+    this.write("warn", message, fields);
+  }
+
+  error(message: string, error?: unknown, fields?: Record<string, unknown>) {
+    this.write("error", message, {...(error !== undefined ? describeError(error) : {}), ...fields});
+  }
+
+  private write(level: LogLevel, message: string, fields?: Record<string, unknown>) {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[this.minLevel]) return;
+    functionsLogger.write({severity: SEVERITY[level], message, ...this.context, ...fields});
+  }
+}
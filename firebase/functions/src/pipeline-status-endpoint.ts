@@ -0,0 +1,101 @@
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import {requireAdmin} from "./admin-auth";
+import {HttpError, httpEndpoint, queryInt, queryString} from "./http-helpers";
+import {PUBLISHED_CATEGORIES} from "./source-registry";
+import {categoryFilePath} from "./feed-storage";
+import {isNotFound} from "./shared-helpers";
+import {RunRecord, listRecentRuns, loadRunRecord} from "./run-history";
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+// Runs read to find each category's last success
+const HISTORY_DEPTH = 50;
+// Three missed two-hourly runs
+const STALE_AFTER_MS = 6 * 60 * 60 * 1000;
+
+function summarizeRun(record: RunRecord) {
+  return {
+    run_id: record.run_id,
+    mode: record.mode,
+    status: record.status,
+    started_at: record.started_at,
+    finished_at: record.finished_at,
+    duration_ms: record.duration_ms,
+    budget_exhausted: record.budget_exhausted,
+    deferred_sources: record.deferred_sources,
+    deferred_articles: record.deferred_articles,
+    failed_categories: record.results.filter((result) => !result.success).map((result) => result.category),
+    source_failures: record.source_failures.length,
+    summary_providers: record.summary_providers,
+    errors: record.errors.length,
+  };
+}
+
+// When the published file itself last changed, whatever wrote it
+async function fileUpdatedAt(category: string): Promise<string | null> {
+  try {
+    const [metadata] = await admin.storage().bucket().file(categoryFilePath(category)).getMetadata();
+    return metadata.updated ? new Date(metadata.updated).toISOString() : null;
+  } catch (error) {
+    if (isNotFound(error)) return null;
+    throw error;
+  }
+}
+
+async function categoryStatus(history: RunRecord[], now: number) {
+  const entries = await Promise.all(PUBLISHED_CATEGORIES.map(async (category) => {
+    // History is newest first
+    const lastSuccess = history.find((record) =>
+      record.results.some((result) => result.category === category && result.success)
+    );
+    const updatedAt = await fileUpdatedAt(category);
+
+    return [category, {
+      file_updated_at: updatedAt,
+      last_success_run_id: lastSuccess?.run_id || null,
+      last_success_at: lastSuccess?.finished_at || null,
+      stale: !updatedAt || now - new Date(updatedAt).getTime() > STALE_AFTER_MS,
+    }] as const;
+  }));
+
+  return Object.fromEntries(entries);
+}
+
+/**
+ * Recent pipeline runs and, per published category, when it last updated.
+ * With `run_id`, the full record of that run instead.
+ */
+export const getPipelineStatus = functions
+  .runWith({
+    timeoutSeconds: 60,
+    memory: "256MB",
+  })
+  .https.onRequest(httpEndpoint({
+    name: "Pipeline status",
+    methods: ["GET"],
+    allowHeaders: ["Authorization"],
+  }, async (req, res) => {
+    await requireAdmin(req);
+
+    const runId = queryString(req, "run_id", {maxLength: 40});
+    if (runId) {
+      const record = /^[0-9TZ-]+$/.test(runId) ? await loadRunRecord(runId) : null;
+      if (!record) {
+        throw new HttpError("not_found", `No run record for ${runId}`);
+      }
+      res.status(200).json(record);
+      return;
+    }
+
+    const limit = queryInt(req, "limit", {default: DEFAULT_LIMIT, min: 1, max: MAX_LIMIT});
+    const history = await listRecentRuns(Math.max(limit, HISTORY_DEPTH));
+    const now = Date.now();
+
+    res.status(200).json({
+      runs: history.slice(0, limit).map(summarizeRun),
+      categories: await categoryStatus(history, now),
+      stale_after_hours: STALE_AFTER_MS / (60 * 60 * 1000),
+      timestamp: new Date(now).toISOString(),
+    });
+  }));
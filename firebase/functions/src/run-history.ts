@@ -0,0 +1,124 @@
+import * as admin from "firebase-admin";
+import {PipelineResult, SourceFailure} from "./unified-pipeline";
+import {PipelineLogger} from "./pipeline-logger";
+
+export type RunMode = "single" | "fan_out";
+
+export interface RunRecord {
+  run_id: string;
+  mode: RunMode;
+  started_at: string;
+  finished_at: string;
+  duration_ms: number;
+  // Building general, the search index and top
+  aggregation_duration_ms: number | null;
+  // "partial" when some categories failed or were left unfinished
+  status: "success" | "partial" | "failed";
+  budget_exhausted: boolean;
+  deferred_sources: number;
+  deferred_articles: number;
+  results: PipelineResult[];
+  source_failures: SourceFailure[];
+  summary_providers: Record<string, number>;
+  errors: string[];
+}
+
+const RUNS_PREFIX = "runs/";
+const RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** A run id that sorts by time and is safe in a Storage path. */
+export function runIdFor(date: Date): string {
+  return date.toISOString().replace(/[:.]/g, "-");
+}
+
+function runPath(runId: string): string {
+  return `${RUNS_PREFIX}${runId}.json`;
+}
+
+function runIdFromPath(path: string): string {
+  return path.substring(RUNS_PREFIX.length).replace(/\.json$/, "");
+}
+
+export function buildRunRecord(
+  runId: string,
+  mode: RunMode,
+  startedAt: Date,
+  results: PipelineResult[],
+  options: {aggregationDurationMs?: number; budgetExhausted?: boolean; errors?: string[]} = {}
+): RunRecord {
+  const summaryProviders: Record<string, number> = {};
+  for (const result of results) {
+    for (const [provider, count] of Object.entries(result.summary_providers || {})) {
+      summaryProviders[provider] = (summaryProviders[provider] || 0) + count;
+    }
+  }
+
+  const errors = [
+    ...results.filter((result) => result.error).map((result) => `${result.category}: ${result.error}`),
+    ...(options.errors || []),
+  ];
+  const succeeded = results.filter((result) => result.success).length;
+  const finishedAt = new Date();
+
+  return {
+    run_id: runId,
+    mode,
+    started_at: startedAt.toISOString(),
+    finished_at: finishedAt.toISOString(),
+    duration_ms: finishedAt.getTime() - startedAt.getTime(),
+    aggregation_duration_ms: options.aggregationDurationMs ?? null,
+    status: errors.length === 0 ? "success" : succeeded > 0 ? "partial" : "failed",
+    budget_exhausted: options.budgetExhausted || results.some((result) => (result.deferred_sources || 0) + (result.deferred_articles || 0) > 0),
+    deferred_sources: results.reduce((sum, result) => sum + (result.deferred_sources || 0), 0),
+    deferred_articles: results.reduce((sum, result) => sum + (result.deferred_articles || 0), 0),
+    results,
+    source_failures: results.flatMap((result) => result.source_failures || []),
+    summary_providers: summaryProviders,
+    errors,
+  };
+}
+
+/**
+ * Writes `runs/<run id>.json` and drops records past retention. Failing to
+ * write history never fails the run.
+ */
+export async function saveRunRecord(record: RunRecord, logger: PipelineLogger = new PipelineLogger()): Promise<void> {
+  try {
+    const bucket = admin.storage().bucket();
+    await bucket.file(runPath(record.run_id)).save(JSON.stringify(record, null, 2), {
+      contentType: "application/json",
+      metadata: {
+        cacheControl: "no-cache",
+      },
+    });
+
+    const cutoff = runIdFor(new Date(Date.now() - RETENTION_MS));
+    const [files] = await bucket.getFiles({prefix: RUNS_PREFIX});
+    await Promise.all(files
+      .filter((file) => runIdFromPath(file.name) < cutoff)
+      .map((file) => file.delete({ignoreNotFound: true})));
+  } catch (error) {
+    logger.error("Failed to save run record", error, {run_id: record.run_id});
+  }
+}
+
+export async function loadRunRecord(runId: string): Promise<RunRecord | null> {
+  const file = admin.storage().bucket().file(runPath(runId));
+  const [exists] = await file.exists();
+  if (!exists) return null;
+
+  const [data] = await file.download();
+  return JSON.parse(data.toString());
+}
+
+/** The most recent run records, newest first. */
+export async function listRecentRuns(limit: number): Promise<RunRecord[]> {
+  const [files] = await admin.storage().bucket().getFiles({prefix: RUNS_PREFIX});
+  const newest = files
+    .map((file) => runIdFromPath(file.name))
+    .sort((a, b) => b.localeCompare(a))
+    .slice(0, limit);
+
+  const records = await Promise.all(newest.map((runId) => loadRunRecord(runId)));
+  return records.filter((record): record is RunRecord => record !== null);
+}
@@ -0,0 +1,85 @@
+import * as functions from "firebase-functions";
+import {GENERAL_CATEGORY, NEWS_CATEGORIES} from "./source-registry";
+import {readCategoryFeed, readFeedFile} from "./feed-storage";
+import {httpEndpoint, queryCategory, queryDate, queryInt, queryString} from "./http-helpers";
+import {SEARCH_INDEX_PATH, SearchIndex, SearchableArticle, buildSearchIndex, searchIndex} from "./search-index";
+import {PipelineLogger} from "./pipeline-logger";
+
+const logger = new PipelineLogger();
+
+const MAX_QUERY_LENGTH = 200;
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+/**
+ * Reads the index the pipeline publishes (cached while the file is
+ * unchanged). Before the first run has written one, the index is built from
+ * the category files.
+ */
+async function loadSearchIndex(): Promise<SearchIndex> {
+  const index = await readFeedFile<SearchIndex>(SEARCH_INDEX_PATH);
+  if (index) return index;
+
+  logger.warn("Search index missing, building it from category files");
+  const entries: Array<{category: string; article: SearchableArticle}> = [];
+  for (const category of NEWS_CATEGORIES) {
+    const categoryData = await readCategoryFeed(category);
+    if (!categoryData) continue;
+
+    for (const article of categoryData.articles || []) {
+      entries.push({category, article});
+    }
+  }
+  return buildSearchIndex(entries);
+}
+
+// "general" is every category, so it filters nothing
+const SEARCH_CATEGORIES = [GENERAL_CATEGORY, ...NEWS_CATEGORIES];
+
+export const searchNews = functions
+  .runWith({
+    timeoutSeconds: 60,
+    memory: "512MB",
+  })
+  .https.onRequest(httpEndpoint({name: "Search endpoint", methods: ["GET"]}, async (req, res) => {
+    const query = queryString(req, "q", {required: true, minLength: 2, maxLength: MAX_QUERY_LENGTH});
+    const category = queryCategory(req, {allowed: SEARCH_CATEGORIES});
+    const source = queryString(req, "source", {maxLength: 100});
+    const from = queryDate(req, "from");
+    const to = queryDate(req, "to");
+    const page = queryInt(req, "page", {default: 1, min: 1, max: 1000});
+    const limit = queryInt(req, "limit", {default: DEFAULT_LIMIT, min: 1, max: MAX_LIMIT});
+
+    logger.info("Search", {query, category: category || "all", page, limit});
+
+    const index = await loadSearchIndex();
+    const hits = searchIndex(index, query, {
+      category: category === GENERAL_CATEGORY ? undefined : category,
+      source,
+      from,
+      to,
+    });
+
+    const startIndex = (page - 1) * limit;
+    const pageHits = hits.slice(startIndex, startIndex + limit);
+    const totalPages = Math.ceil(hits.length / limit);
+
+    res.status(200).json({
+      query: query,
+      articles: pageHits.map((hit) => ({
+        ...hit.document.article,
+        categories: hit.document.categories,
+        score: Math.round(hit.score * 1000) / 1000,
+      })),
+      pagination: {
+        page: page,
+        limit: limit,
+        total_articles: hits.length,
+        total_pages: totalPages,
+        has_next: page < totalPages,
+        has_prev: page > 1,
+      },
+      index_updated_at: index.updated_at,
+      timestamp: new Date().toISOString(),
+    });
+  }));
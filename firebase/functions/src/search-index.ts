@@ -0,0 +1,213 @@
+import {getStopWords, stemWord, tokenizeWords} from "./language-detection";
+
+export const SEARCH_INDEX_PATH = "news/search_index.json";
+
+const INDEX_SCHEMA_VERSION = 1;
+
+// How much a term occurrence counts, by field
+const FIELD_WEIGHTS = {
+  title: 3,
+  tags: 2,
+  description: 1,
+  summary: 1,
+};
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// A story published now scores up to this much higher than an old one
+const RECENCY_BOOST = 0.25;
+const RECENCY_HALF_LIFE_HOURS = 24;
+
+export interface SearchableArticle {
+  id?: string;
+  title: string;
+  url: string;
+  summary: string;
+  description?: string | null;
+  tags?: string[];
+  source: string;
+  published_at: string;
+  [field: string]: any;
+}
+
+export interface SearchDocument {
+  article: SearchableArticle;
+  categories: string[];
+}
+
+export interface SearchIndex {
+  schema_version: number;
+  updated_at: string;
+  documents: SearchDocument[];
+  // Weighted length of each document, by position in `documents`
+  lengths: number[];
+  average_length: number;
+  // term -> [document position, weighted term frequency]
+  postings: Record<string, Array<[number, number]>>;
+}
+
+export interface SearchFilters {
+  category?: string;
+  source?: string;
+  // Epoch milliseconds, inclusive
+  from?: number;
+  to?: number;
+}
+
+export interface SearchHit {
+  document: SearchDocument;
+  score: number;
+  matched_terms: number;
+}
+
+const STOP_WORDS = new Set([...getStopWords("it"), ...getStopWords("en")]);
+
+function foldAccents(text: string): string {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+}
+
+/**
+ * Turns text into search terms: lower-cased, accent-folded ("perché" and
+ * "perche" match), stop words dropped and stemmed as Italian. English
+ * plurals are folded too, since most queries carry no language hint.
+ */
+export function analyzeText(text: string): string[] {
+  if (!text) return [];
+
+  return tokenizeWords(text)
+    // Elided articles: "dell'Europa" -> "europa"
+    .flatMap((word) => word.split("'"))
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+    .map((word) => {
+      const stemmed = stemWord(foldAccents(word), "it");
+      return stemmed.length > 4 ? stemmed.replace(/([^s])s$/, "$1") : stemmed;
+    });
+}
+
+function documentKey(article: SearchableArticle): string {
+  return article.id || article.url;
+}
+
+/**
+ * Builds the inverted index the pipeline publishes after each run. An
+ * article listed in several categories becomes one document carrying all
+ * of them.
+ */
+export function buildSearchIndex(entries: Array<{category: string; article: SearchableArticle}>): SearchIndex {
+  const byKey = new Map<string, SearchDocument>();
+  for (const {category, article} of entries) {
+    const key = documentKey(article);
+    const existing = byKey.get(key);
+    if (existing) {
+      if (!existing.categories.includes(category)) existing.categories.push(category);
+    } else {
+      byKey.set(key, {article, categories: [category]});
+    }
+  }
+
+  const documents = Array.from(byKey.values());
+  // No prototype: terms come from article text, and "constructor" or
+  // "tostring" must not find Object.prototype members
+  const postings: Record<string, Array<[number, number]>> = Object.create(null);
+  const lengths: number[] = [];
+
+  documents.forEach(({article}, position) => {
+    const frequencies = new Map<string, number>();
+    const fields: Array<[string, number]> = [
+      [article.title, FIELD_WEIGHTS.title],
+      [(article.tags || []).join(" "), FIELD_WEIGHTS.tags],
+      [article.description || "", FIELD_WEIGHTS.description],
+      [article.summary, FIELD_WEIGHTS.summary],
+    ];
+
+    let length = 0;
+    for (const [text, weight] of fields) {
+      for (const term of analyzeText(text)) {
+        frequencies.set(term, (frequencies.get(term) || 0) + weight);
+        length += weight;
+      }
+    }
+
+    lengths.push(length);
+    for (const [term, frequency] of frequencies) {
+      if (!postings[term]) postings[term] = [];
+      postings[term].push([position, frequency]);
+    }
+  });
+
+  const totalLength = lengths.reduce((sum, length) => sum + length, 0);
+
+  return {
+    schema_version: INDEX_SCHEMA_VERSION,
+    updated_at: new Date().toISOString(),
+    documents,
+    lengths,
+    average_length: documents.length > 0 ? totalLength / documents.length : 0,
+    postings,
+  };
+}
+
+function matchesFilters(document: SearchDocument, filters: SearchFilters): boolean {
+  if (filters.category && !document.categories.includes(filters.category)) return false;
+  if (filters.source && document.article.source.toLowerCase() !== filters.source.toLowerCase()) return false;
+
+  if (filters.from !== undefined || filters.to !== undefined) {
+    const publishedAt = new Date(document.article.published_at).getTime();
+    if (isNaN(publishedAt)) return false;
+    if (filters.from !== undefined && publishedAt < filters.from) return false;
+    if (filters.to !== undefined && publishedAt > filters.to) return false;
+  }
+
+  return true;
+}
+
+/**
+ * BM25 over the weighted fields, scaled by the share of query terms a
+ * document matches and nudged towards recent stories. Hits are returned
+ * best first.
+ */
+export function searchIndex(
+  index: SearchIndex,
+  query: string,
+  filters: SearchFilters = {},
+  now: number = Date.now()
+): SearchHit[] {
+  const terms = Array.from(new Set(analyzeText(query)));
+  if (terms.length === 0) return [];
+
+  const documentCount = index.documents.length;
+  const scores = new Map<number, {score: number; matched: number}>();
+
+  for (const term of terms) {
+    // The published index is parsed JSON with an ordinary prototype
+    if (!Object.prototype.hasOwnProperty.call(index.postings, term)) continue;
+    const postings = index.postings[term];
+
+    const idf = Math.log(1 + (documentCount - postings.length + 0.5) / (postings.length + 0.5));
+    for (const [position, frequency] of postings) {
+      const lengthRatio = index.average_length > 0 ? index.lengths[position] / index.average_length : 1;
+      const termScore = idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * lengthRatio));
+
+      const current = scores.get(position) || {score: 0, matched: 0};
+      current.score += termScore;
+      current.matched++;
+      scores.set(position, current);
+    }
+  }
+
+  const hits: SearchHit[] = [];
+  for (const [position, {score, matched}] of scores) {
+    const document = index.documents[position];
+    if (!matchesFilters(document, filters)) continue;
+
+    const coverage = matched / terms.length;
+    const ageHours = Math.max(0, (now - new Date(document.article.published_at).getTime()) / 3600000);
+    const recency = isNaN(ageHours) ? 0 : RECENCY_BOOST * Math.pow(0.5, ageHours / RECENCY_HALF_LIFE_HOURS);
+
+    hits.push({document, score: score * coverage * coverage * (1 + recency), matched_terms: matched});
+  }
+
+  return hits.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,77 @@
+import * as admin from "firebase-admin";
+
+const MAX_SAVE_ATTEMPTS = 5;
+
+/** The `code` of a Storage, Cloud Tasks or Node error, if it has one. */
+export function errorCode(error: unknown): unknown {
+  return error instanceof Error && "code" in error ? error.code : undefined;
+}
+
+export function isNotFound(error: unknown): boolean {
+  return errorCode(error) === 404;
+}
+
+// A generation precondition failed: someone else wrote the object first
+export function isPreconditionFailure(error: unknown): boolean {
+  return errorCode(error) === 412;
+}
+
+/** An integer from the environment, or `fallback` when unset or invalid. */
+export function envNumber(name: string, fallback: number, env: NodeJS.ProcessEnv = process.env): number {
+  const value = parseInt(env[name] || "", 10);
+  return isNaN(value) ? fallback : value;
+}
+
+export function publicUrlFor(bucketName: string, fileName: string): string {
+  return `https://firebasestorage.googleapis.com/v0/b/${bucketName}/o/${encodeURIComponent(fileName)}?alt=media`;
+}
+
+/**
+ * Reads a JSON file, applies `mutate` and writes the result back with a
+ * generation precondition, starting over from a fresh read when another
+ * writer got in between. `mutate` gets null when the file does not exist
+ * and returns what to save, or undefined to leave the file untouched.
+ */
+export async function updateJSONFile<T>(
+  fileName: string,
+  mutate: (current: T | null) => T | undefined
+): Promise<T | undefined> {
+  const bucket = admin.storage().bucket();
+
+  for (let attempt = 1; ; attempt++) {
+    let current: T | null = null;
+    let generation = 0;
+    try {
+      const [metadata] = await bucket.file(fileName).getMetadata();
+      generation = Number(metadata.generation);
+      // Pinned, so what is mutated is exactly what the precondition checks
+      const [data] = await bucket.file(fileName, {generation}).download();
+      current = JSON.parse(data.toString());
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+      if (generation !== 0) {
+        // Replaced between the two calls
+        if (attempt >= MAX_SAVE_ATTEMPTS) throw error;
+        continue;
+      }
+    }
+
+    const next = mutate(current);
+    if (next === undefined) return undefined;
+
+    try {
+      await bucket.file(fileName).save(JSON.stringify(next, null, 2), {
+        contentType: "application/json",
+        metadata: {
+          cacheControl: "no-cache",
+        },
+        preconditionOpts: {
+          ifGenerationMatch: generation,
+        },
+      });
+      return next;
+    } catch (error) {
+      if (!isPreconditionFailure(error) || attempt >= MAX_SAVE_ATTEMPTS) throw error;
+    }
+  }
+}
@@ -1,21 +1,132 @@
 import * as functions from "firebase-functions";
-import * as admin from "firebase-admin";
+import * as crypto from "crypto";
+import {readCategoryFeed} from "./feed-storage";
+import {GENERAL_CATEGORY, PUBLISHED_CATEGORIES} from "./source-registry";
+import {HttpError, httpEndpoint, queryCategory, queryInt, queryList, queryString} from "./http-helpers";
+import {PipelineLogger} from "./pipeline-logger";
+
+const logger = new PipelineLogger();
 
 interface Article {
+  id?: string;
   title: string;
   url: string;
   summary: string;
   image: string | null;
   published_at: string;
   source: string;
+  related_sources?: Array<{id?: string; source: string; url: string; title: string; published_at: string}>;
+  author?: string | null;
+  description?: string | null;
+  tags?: string[];
+  language?: string;
+  word_count?: number;
+  reading_time_minutes?: number;
 }
 
 interface CategoryJSON {
+  // Absent in files written before the schema was versioned
+  schema_version?: number;
   category: string;
   updated_at: string;
   articles: Article[];
 }
 
+const MAX_IDS_PER_REQUEST = 100;
+
+/**
+ * Looks the ids up in `category` first and then in the other categories, so
+ * bookmarks still resolve after an article has dropped out of the feed it
+ * was saved from. An id of an outlet folded into a story resolves to the
+ * story's primary article.
+ */
+async function findArticlesByIds(category: string, ids: string[]): Promise<Map<string, Article>> {
+  const found = new Map<string, Article>();
+  const searchOrder = [category, ...PUBLISHED_CATEGORIES.filter((c) => c !== category)];
+
+  for (const current of searchOrder) {
+    if (found.size === ids.length) break;
+
+    const categoryData = await readCategoryFeed<CategoryJSON>(current);
+    if (!categoryData) continue;
+
+    for (const article of categoryData.articles) {
+      if (article.id && ids.includes(article.id) && !found.has(article.id)) {
+        found.set(article.id, article);
+      }
+      for (const related of article.related_sources || []) {
+        if (related.id && ids.includes(related.id) && !found.has(related.id)) {
+          found.set(related.id, article);
+        }
+      }
+    }
+  }
+
+  return found;
+}
+
+async function respondWithArticlesByIds(res: functions.Response, category: string, ids: string[]) {
+  const found = await findArticlesByIds(category, ids);
+  const articles = ids.filter((id) => found.has(id)).map((id) => found.get(id));
+  const missingIds = ids.filter((id) => !found.has(id));
+
+  logger.info("Resolved articles by id", {category, resolved: articles.length, requested: ids.length});
+
+  res.status(200).json({
+    category: category,
+    articles: articles,
+    missing_ids: missingIds,
+    total: articles.length,
+    shuffled: false,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+interface ShuffleCursor {
+  category: string;
+  seed: string;
+  // Sort key of the last article returned
+  after: string;
+}
+
+/**
+ * Position of an article in the permutation for `seed`. Every article's
+ * position depends only on the seed and its own id, so the order of the
+ * articles that survive a pipeline refresh does not change and new ones
+ * slot in between them.
+ */
+function seededSortKey(seed: string, article: Article): string {
+  const key = article.id || article.url;
+  const hash = crypto.createHash("sha256").update(`${seed}:${key}`).digest("hex").substring(0, 16);
+  return `${hash}:${key}`;
+}
+
+function seededShuffle(articles: Article[], seed: string): Array<{article: Article; sortKey: string}> {
+  return articles
+    .map((article) => ({article, sortKey: seededSortKey(seed, article)}))
+    .sort((a, b) => (a.sortKey < b.sortKey ? -1 : a.sortKey > b.sortKey ? 1 : 0));
+}
+
+function createSeed(): string {
+  return crypto.randomBytes(8).toString("hex");
+}
+
+function encodeCursor(cursor: ShuffleCursor): string {
+  return Buffer.from(JSON.stringify({c: cursor.category, s: cursor.seed, a: cursor.after})).toString("base64url");
+}
+
+function decodeCursor(value: string): ShuffleCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (typeof parsed?.c !== "string" || typeof parsed?.s !== "string" || typeof parsed?.a !== "string") {
+      return null;
+    }
+    return {category: parsed.c, seed: parsed.s, after: parsed.a};
+  } catch {
+    return null;
+  }
+}
+
 function shuffleArray<T>(array: T[]): T[] {
   const shuffled = [...array];
   for (let i = shuffled.length - 1; i > 0; i--) {
@@ -25,171 +136,119 @@ function shuffleArray<T>(array: T[]): T[] {
   return shuffled;
 }
 
+async function loadCategoryOr404(category: string): Promise<CategoryJSON> {
+  // Cached while the file is unchanged
+  const categoryData = await readCategoryFeed<CategoryJSON>(category);
+  if (!categoryData) {
+    throw new HttpError("not_found", `No articles found for category: ${category}`);
+  }
+  return categoryData;
+}
+
 export const getShuffledNews = functions
   .runWith({
     timeoutSeconds: 60,
     memory: "256MB",
   })
-  .https.onRequest(async (req, res) => {
-    // Enable CORS
-    res.set("Access-Control-Allow-Origin", "*");
-    res.set("Access-Control-Allow-Methods", "GET");
-    res.set("Access-Control-Allow-Headers", "Content-Type");
-
-    if (req.method === "OPTIONS") {
-      res.status(204).send("");
+  .https.onRequest(httpEndpoint({name: "Shuffle endpoint", methods: ["GET"]}, async (req, res) => {
+    const category = queryCategory(req, {default: GENERAL_CATEGORY});
+    
+    logger.info("Shuffled news requested", {category});
+
+    const ids = queryList(req, "ids", {max: MAX_IDS_PER_REQUEST});
+    if (ids) {
+      await respondWithArticlesByIds(res, category, ids);
       return;
     }
 
-    try {
-      const category = req.query.category as string || "general";
-      
-      console.log(`User requested shuffled ${category} news`);
-
-      // Validate category
-      const validCategories = [
-        "general", "politics", "sports", "technology", 
-        "entertainment", "business", "world", "crime", 
-        "automotive", "lifestyle"
-      ];
-
-      if (!validCategories.includes(category)) {
-        res.status(400).json({
-          error: "Invalid category",
-          validCategories: validCategories,
-        });
-        return;
-      }
-
-      // Read articles from Firebase Storage
-      const bucket = admin.storage().bucket();
-      const file = bucket.file(`news/news_${category}.json`);
-
-      const [exists] = await file.exists();
-      if (!exists) {
-        res.status(404).json({
-          error: `No articles found for category: ${category}`,
-        });
-        return;
-      }
+    const categoryData = await loadCategoryOr404(category);
+    const shuffledArticles = shuffleArray(categoryData.articles);
 
-      // Download and parse JSON
-      const [data] = await file.download();
-      const categoryData: CategoryJSON = JSON.parse(data.toString());
+    logger.info("Shuffled news served", {category, articles: shuffledArticles.length});
 
-      const shuffledArticles = shuffleArray(categoryData.articles);
 
-      console.log(`Shuffled ${shuffledArticles.length} articles for ${category}`);
-
-
-      res.status(200).json({
-        category: categoryData.category,
-        updated_at: categoryData.updated_at,
-        articles: shuffledArticles,
-        total: shuffledArticles.length,
-        shuffled: true,
-        timestamp: new Date().toISOString(),
-      });
-
-    } catch (error) {
-      console.error("Shuffle endpoint error:", error);
-      res.status(500).json({
-        error: "Internal server error",
-        message: error instanceof Error ? error.message : String(error),
-      });
-    }
-  });
+    res.status(200).json({
+      schema_version: categoryData.schema_version || 1,
+      category: categoryData.category,
+      updated_at: categoryData.updated_at,
+      articles: shuffledArticles,
+      total: shuffledArticles.length,
+      shuffled: true,
+      timestamp: new Date().toISOString(),
+    });
+  }));
 
 export const getShuffledNewsPaginated = functions
   .runWith({
     timeoutSeconds: 60,
     memory: "256MB",
   })
-  .https.onRequest(async (req, res) => {
-    res.set("Access-Control-Allow-Origin", "*");
-    res.set("Access-Control-Allow-Methods", "GET");
-    res.set("Access-Control-Allow-Headers", "Content-Type");
-
-    if (req.method === "OPTIONS") {
-      res.status(204).send("");
-      return;
+  .https.onRequest(httpEndpoint({name: "Shuffle endpoint", methods: ["GET"]}, async (req, res) => {
+    const cursorParam = queryString(req, "cursor", {maxLength: 1000});
+    const cursor = cursorParam ? decodeCursor(cursorParam) : null;
+    if (cursorParam && !cursor) {
+      throw new HttpError("invalid_parameter", "cursor must be a next_cursor value returned by this endpoint", {
+        parameter: "cursor",
+      });
     }
 
-    try {
-      const category = req.query.category as string || "general";
-      const page = parseInt(req.query.page as string) || 1;
-      const limit = parseInt(req.query.limit as string) || 50;
-      
-      console.log(`User requested shuffled ${category} news (page ${page}, limit ${limit})`);
-
-      const validCategories = [
-        "general", "politics", "sports", "technology", 
-        "entertainment", "business", "world", "crime", 
-        "automotive", "lifestyle"
-      ];
-
-      if (!validCategories.includes(category)) {
-        res.status(400).json({
-          error: "Invalid category",
-          validCategories: validCategories,
-        });
-        return;
-      }
-
-      if (page < 1 || limit < 1 || limit > 800) {
-        res.status(400).json({
-          error: "Invalid pagination parameters",
-          message: "page must be >= 1, limit must be 1-800",
-        });
-        return;
-      }
-
-      const bucket = admin.storage().bucket();
-      const file = bucket.file(`news/news_${category}.json`);
-
-      const [exists] = await file.exists();
-      if (!exists) {
-        res.status(404).json({
-          error: `No articles found for category: ${category}`,
-        });
-        return;
-      }
-
-      const [data] = await file.download();
-      const categoryData: CategoryJSON = JSON.parse(data.toString());
-
-      const shuffledArticles = shuffleArray(categoryData.articles);
-
-      const startIndex = (page - 1) * limit;
-      const endIndex = startIndex + limit;
-      const paginatedArticles = shuffledArticles.slice(startIndex, endIndex);
-
-      const totalPages = Math.ceil(shuffledArticles.length / limit);
-
-      console.log(`Shuffled ${shuffledArticles.length} articles, returning page ${page}/${totalPages}`);
-
+    const requestedCategory = queryCategory(req);
+    if (cursor && requestedCategory && requestedCategory !== cursor.category) {
+      throw new HttpError("invalid_parameter", `cursor belongs to category ${cursor.category}`, {parameter: "cursor"});
+    }
 
-      res.status(200).json({
-        category: categoryData.category,
-        updated_at: categoryData.updated_at,
-        articles: paginatedArticles,
-        pagination: {
-          page: page,
-          limit: limit,
-          total_articles: shuffledArticles.length,
-          total_pages: totalPages,
-          has_next: page < totalPages,
-          has_prev: page > 1,
-        },
-        shuffled: true,
-        timestamp: new Date().toISOString(),
-      });
+    const category = cursor?.category || requestedCategory || GENERAL_CATEGORY;
+    const page = queryInt(req, "page", {default: 1, min: 1, max: 100000});
+    const limit = queryInt(req, "limit", {default: 50, min: 1, max: 800});
+    
+    logger.info("Shuffled news requested", {category, ...(cursor ? {cursor: true} : {page}), limit});
 
-    } catch (error) {
-      console.error("Shuffle endpoint error:", error);
-      res.status(500).json({
-        error: "Internal server error",
-        message: error instanceof Error ? error.message : String(error),
-      });
+    const ids = queryList(req, "ids", {max: MAX_IDS_PER_REQUEST});
+    if (ids) {
+      await respondWithArticlesByIds(res, category, ids);
+      return;
     }
-  });
+
+    const categoryData = await loadCategoryOr404(category);
+
+    // The same seed gives the same order on every request
+    const seed = cursor?.seed || queryString(req, "seed", {maxLength: 64}) || createSeed();
+    const shuffled = seededShuffle(categoryData.articles, seed);
+
+    // A cursor resumes after the last article served, even if the file was
+    // refreshed in between; a page number indexes the current permutation
+    const startIndex = cursor ?
+      shuffled.filter((entry) => entry.sortKey <= cursor.after).length :
+      (page - 1) * limit;
+    const pageEntries = shuffled.slice(startIndex, startIndex + limit);
+    const paginatedArticles = pageEntries.map((entry) => entry.article);
+
+    const currentPage = Math.floor(startIndex / limit) + 1;
+    const totalPages = Math.ceil(shuffled.length / limit);
+    const hasNext = startIndex + limit < shuffled.length;
+    const nextCursor = hasNext && pageEntries.length > 0 ?
+      encodeCursor({category, seed, after: pageEntries[pageEntries.length - 1].sortKey}) :
+      null;
+
+    logger.info("Shuffled news served", {category, articles: shuffled.length, seed, page: currentPage, total_pages: totalPages});
+
+
+    res.status(200).json({
+      schema_version: categoryData.schema_version || 1,
+      category: categoryData.category,
+      updated_at: categoryData.updated_at,
+      articles: paginatedArticles,
+      pagination: {
+        page: currentPage,
+        limit: limit,
+        total_articles: shuffled.length,
+        total_pages: totalPages,
+        has_next: hasNext,
+        has_prev: startIndex > 0,
+      },
+      seed: seed,
+      next_cursor: nextCursor,
+      shuffled: true,
+      timestamp: new Date().toISOString(),
+    });
+  }));
@@ -0,0 +1,300 @@
+import * as functions from "firebase-functions";
+import {requireAdmin} from "./admin-auth";
+import {HttpError, httpEndpoint, queryCategory, queryString} from "./http-helpers";
+import {
+  NEWS_CATEGORIES,
+  NewsSource,
+  createSource,
+  loadSourceRegistry,
+  saveSourceRegistry,
+  slugifySourceName,
+} from "./source-registry";
+import {loadSourceState} from "./source-state";
+import {getHealthStatus} from "./source-health";
+import {isPreconditionFailure} from "./shared-helpers";
+import {PipelineLogger} from "./pipeline-logger";
+
+const logger = new PipelineLogger();
+
+type EditableField = "url" | "name" | "category" | "enabled" | "language" | "priority" | "fetch_interval_minutes";
+type SourceFields = Partial<Pick<NewsSource, EditableField>>;
+
+const EDITABLE_FIELDS: EditableField[] = [
+  "url", "name", "category", "enabled", "language", "priority", "fetch_interval_minutes",
+];
+
+function invalidBody(message: string): HttpError {
+  return new HttpError("invalid_body", message);
+}
+
+function requestBody(body: unknown): Record<string, unknown> {
+  if (body === undefined || body === null || body === "") return {};
+  if (typeof body !== "object" || Array.isArray(body)) {
+    throw invalidBody("Body must be a JSON object");
+  }
+  return body as Record<string, unknown>;
+}
+
+function isInteger(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value);
+}
+
+/**
+ * Checks the editable fields of a request body and returns them typed.
+ * With `partial`, only the fields present are checked (updates); otherwise
+ * url, name and category are required (creation).
+ */
+function parseSourceFields(body: Record<string, unknown>, partial: boolean): SourceFields {
+  const {url, name, category, enabled, language, priority} = body;
+  const fetchInterval = body.fetch_interval_minutes;
+  const fields: SourceFields = {};
+
+  if (!partial || url !== undefined) {
+    let parsed: URL;
+    try {
+      if (typeof url !== "string") throw new TypeError("url is not a string");
+      parsed = new URL(url);
+    } catch {
+      throw invalidBody("url must be a valid URL");
+    }
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+      throw invalidBody("url must be http or https");
+    }
+    fields.url = url.trim();
+  }
+
+  if (!partial || name !== undefined) {
+    if (typeof name !== "string" || name.trim() === "") {
+      throw invalidBody("name is required");
+    }
+    // The id is derived from the name
+    if (slugifySourceName(name) === "") {
+      throw invalidBody("name must contain at least one letter or digit");
+    }
+    fields.name = name.trim();
+  }
+
+  if (!partial || category !== undefined) {
+    if (typeof category !== "string" || !NEWS_CATEGORIES.includes(category)) {
+      throw invalidBody(`category must be one of: ${NEWS_CATEGORIES.join(", ")}`);
+    }
+    fields.category = category;
+  }
+
+  if (enabled !== undefined) {
+    if (typeof enabled !== "boolean") throw invalidBody("enabled must be a boolean");
+    fields.enabled = enabled;
+  }
+
+  if (language !== undefined) {
+    if (typeof language !== "string" || !/^[a-z]{2}$/.test(language)) {
+      throw invalidBody("language must be a two-letter ISO 639-1 code");
+    }
+    fields.language = language;
+  }
+
+  if (priority !== undefined) {
+    if (!isInteger(priority) || priority < 1 || priority > 10) {
+      throw invalidBody("priority must be an integer 1-10");
+    }
+    fields.priority = priority;
+  }
+
+  if (fetchInterval !== undefined) {
+    if (!isInteger(fetchInterval) || fetchInterval < 15) {
+      throw invalidBody("fetch_interval_minutes must be an integer >= 15");
+    }
+    fields.fetch_interval_minutes = fetchInterval;
+  }
+
+  return fields;
+}
+
+/**
+ * Applies `mutate` to the current registry and saves it, returning the
+ * updated source. `mutate` throws an HttpError to reject the change.
+ */
+async function mutateRegistry(mutate: (sources: NewsSource[]) => NewsSource): Promise<NewsSource> {
+  const {registry, generation} = await loadSourceRegistry();
+  const source = mutate(registry.sources);
+
+  try {
+    await saveSourceRegistry(registry, generation);
+  } catch (error) {
+    if (isPreconditionFailure(error)) {
+      throw new HttpError("conflict", "Source registry was modified concurrently, retry the request");
+    }
+    throw error;
+  }
+
+  return source;
+}
+
+function findSource(sources: NewsSource[], id: string): NewsSource {
+  const existing = sources.find((s) => s.id === id);
+  if (!existing) {
+    throw new HttpError("not_found", `Source ${id} not found`);
+  }
+  return existing;
+}
+
+// Same feed URL twice in one category would be fetched and merged twice
+function requireUniqueFeed(sources: NewsSource[], source: NewsSource) {
+  if (sources.some((s) => s.id !== source.id && s.url === source.url && s.category === source.category)) {
+    throw new HttpError("conflict", `Feed ${source.url} is already registered for ${source.category}`);
+  }
+}
+
+function requireId(body: Record<string, unknown>): string {
+  if (typeof body.id !== "string" || body.id === "") {
+    throw invalidBody("id is required");
+  }
+  return body.id;
+}
+
+// Admin calls carry an ID token, so the preflight must allow Authorization
+function adminEndpoint(name: string, methods: string[], handler: Parameters<typeof httpEndpoint>[1]) {
+  return httpEndpoint({name, methods, allowHeaders: ["Authorization"]}, handler);
+}
+
+export const listNewsSources = functions
+  .runWith({
+    timeoutSeconds: 60,
+    memory: "256MB",
+  })
+  .https.onRequest(adminEndpoint("List sources", ["GET"], async (req, res) => {
+    await requireAdmin(req);
+
+    const category = queryCategory(req, {allowed: NEWS_CATEGORIES});
+    const {registry} = await loadSourceRegistry();
+
+    const sources = category ?
+      registry.sources.filter((s) => s.category === category) :
+      registry.sources;
+
+    res.status(200).json({
+      updated_at: registry.updated_at,
+      total: sources.length,
+      enabled: sources.filter((s) => s.enabled).length,
+      sources: sources,
+    });
+  }));
+
+export const addNewsSource = functions
+  .runWith({
+    timeoutSeconds: 60,
+    memory: "256MB",
+  })
+  .https.onRequest(adminEndpoint("Add source", ["POST"], async (req, res) => {
+    const caller = await requireAdmin(req);
+
+    const fields = parseSourceFields(requestBody(req.body), false);
+
+    const source = await mutateRegistry((sources) => {
+      const candidate = createSource({...fields, url: fields.url, name: fields.name, category: fields.category});
+
+      if (sources.some((s) => s.id === candidate.id)) {
+        throw new HttpError("conflict", `Source with id ${candidate.id} already exists`);
+      }
+      requireUniqueFeed(sources, candidate);
+
+      sources.push(candidate);
+      return candidate;
+    });
+
+    logger.info("Source added", {source: source.id, category: source.category, uid: caller.uid});
+    res.status(201).json({success: true, source});
+  }));
+
+export const updateNewsSource = functions
+  .runWith({
+    timeoutSeconds: 60,
+    memory: "256MB",
+  })
+  .https.onRequest(adminEndpoint("Update source", ["POST", "PATCH"], async (req, res) => {
+    const caller = await requireAdmin(req);
+
+    const body = requestBody(req.body);
+    const id = requireId(body);
+
+    const updates = parseSourceFields(body, true);
+    if (Object.keys(updates).length === 0) {
+      throw invalidBody(`Nothing to update, editable fields: ${EDITABLE_FIELDS.join(", ")}`);
+    }
+
+    const source = await mutateRegistry((sources) => {
+      const existing = findSource(sources, id);
+      requireUniqueFeed(sources, {...existing, ...updates});
+      Object.assign(existing, updates, {updated_at: new Date().toISOString()});
+      return existing;
+    });
+
+    logger.info("Source updated", {source: source.id, uid: caller.uid, fields: Object.keys(updates)});
+    res.status(200).json({success: true, source});
+  }));
+
+export const disableNewsSource = functions
+  .runWith({
+    timeoutSeconds: 60,
+    memory: "256MB",
+  })
+  .https.onRequest(adminEndpoint("Disable source", ["POST"], async (req, res) => {
+    const caller = await requireAdmin(req);
+
+    const id = requireId(requestBody(req.body));
+
+    const source = await mutateRegistry((sources) => {
+      const existing = findSource(sources, id);
+      existing.enabled = false;
+      existing.updated_at = new Date().toISOString();
+      return existing;
+    });
+
+    logger.info("Source disabled", {source: source.id, uid: caller.uid});
+    res.status(200).json({success: true, source});
+  }));
+
+export const getSourceHealth = functions
+  .runWith({
+    timeoutSeconds: 60,
+    memory: "256MB",
+  })
+  .https.onRequest(adminEndpoint("Source health", ["GET"], async (req, res) => {
+    await requireAdmin(req);
+
+    const category = queryCategory(req, {allowed: NEWS_CATEGORIES});
+    const statusFilter = queryString(req, "status", {maxLength: 20});
+
+    const [{registry}, state] = await Promise.all([loadSourceRegistry(), loadSourceState()]);
+    const now = Date.now();
+
+    const report = registry.sources
+      .filter((source) => !category || source.category === category)
+      .map((source) => {
+        const entry = state.sources[source.id];
+        return {
+          id: source.id,
+          name: source.name,
+          url: source.url,
+          category: source.category,
+          enabled: source.enabled,
+          status: source.enabled ? getHealthStatus(entry, now) : "disabled",
+          last_fetched_at: entry?.last_fetched_at || null,
+          health: entry?.health || null,
+        };
+      })
+      .filter((source) => !statusFilter || source.status === statusFilter);
+
+    const counts: Record<string, number> = {};
+    for (const source of report) {
+      counts[source.status] = (counts[source.status] || 0) + 1;
+    }
+
+    res.status(200).json({
+      updated_at: state.updated_at,
+      total: report.length,
+      counts: counts,
+      sources: report,
+      timestamp: new Date().toISOString(),
+    });
+  }));
@@ -0,0 +1,105 @@
+import {SourceStateEntry} from "./source-state";
+
+export interface SourceFetchOutcome {
+  ok: boolean;
+  http_status: number | null;
+  latency_ms: number;
+  item_count: number;
+  not_modified?: boolean;
+  // Items dropped because their date was missing, unparseable or in the future
+  invalid_dates?: number;
+  parse_error?: string;
+  error?: string;
+}
+
+export interface SourceHealthSample {
+  at: string;
+  ok: boolean;
+  http_status: number | null;
+  latency_ms: number;
+  item_count: number;
+}
+
+export interface SourceHealth {
+  last_outcome?: SourceFetchOutcome;
+  last_success_at?: string;
+  last_failure_at?: string;
+  consecutive_failures: number;
+  total_runs: number;
+  total_failures: number;
+  quarantined_until?: string;
+  recent: SourceHealthSample[];
+}
+
+export type SourceHealthStatus = "healthy" | "empty" | "failing" | "quarantined" | "unknown";
+
+// Consecutive failed runs before a source is skipped
+const QUARANTINE_THRESHOLD = 3;
+const QUARANTINE_BASE_MS = 2 * 60 * 60 * 1000;
+const QUARANTINE_MAX_MS = 48 * 60 * 60 * 1000;
+const RECENT_SAMPLES = 10;
+
+function emptyHealth(): SourceHealth {
+  return {
+    consecutive_failures: 0,
+    total_runs: 0,
+    total_failures: 0,
+    recent: [],
+  };
+}
+
+/**
+ * Folds one fetch attempt into the source's persisted health. Once a source
+ * reaches QUARANTINE_THRESHOLD consecutive failures it is quarantined, and
+ * every further failure (the probe after the quarantine expires) doubles
+ * the quarantine up to QUARANTINE_MAX_MS. A single success clears it.
+ */
+export function recordFetchOutcome(entry: SourceStateEntry, outcome: SourceFetchOutcome, now: number = Date.now()) {
+  const health = entry.health || emptyHealth();
+  const at = new Date(now).toISOString();
+
+  health.last_outcome = outcome;
+  health.total_runs += 1;
+  health.recent.unshift({
+    at,
+    ok: outcome.ok,
+    http_status: outcome.http_status,
+    latency_ms: outcome.latency_ms,
+    item_count: outcome.item_count,
+  });
+  health.recent = health.recent.slice(0, RECENT_SAMPLES);
+
+  if (outcome.ok) {
+    health.last_success_at = at;
+    health.consecutive_failures = 0;
+    delete health.quarantined_until;
+  } else {
+    health.last_failure_at = at;
+    health.consecutive_failures += 1;
+    health.total_failures += 1;
+
+    if (health.consecutive_failures >= QUARANTINE_THRESHOLD) {
+      const exponent = health.consecutive_failures - QUARANTINE_THRESHOLD;
+      const backoff = Math.min(QUARANTINE_BASE_MS * Math.pow(2, exponent), QUARANTINE_MAX_MS);
+      health.quarantined_until = new Date(now + backoff).toISOString();
+    }
+  }
+
+  entry.health = health;
+  entry.last_fetched_at = at;
+}
+
+export function isQuarantined(entry: SourceStateEntry | undefined, now: number = Date.now()): boolean {
+  const until = entry?.health?.quarantined_until;
+  if (!until) return false;
+  return new Date(until).getTime() > now;
+}
+
+export function getHealthStatus(entry: SourceStateEntry | undefined, now: number = Date.now()): SourceHealthStatus {
+  const health = entry?.health;
+  if (!health || !health.last_outcome) return "unknown";
+  if (isQuarantined(entry, now)) return "quarantined";
+  if (!health.last_outcome.ok) return "failing";
+  if (health.last_outcome.item_count === 0 && !health.last_outcome.not_modified) return "empty";
+  return "healthy";
+}
@@ -0,0 +1,287 @@
+import * as admin from "firebase-admin";
+import {PipelineLogger} from "./pipeline-logger";
+import {isPreconditionFailure} from "./shared-helpers";
+
+const logger = new PipelineLogger();
+
+export const NEWS_CATEGORIES = [
+  "politics", "sports", "technology", "entertainment", "business",
+  "world", "crime", "automotive", "lifestyle",
+];
+
+// Built by the pipeline from the category files rather than from sources
+export const GENERAL_CATEGORY = "general";
+export const TOP_CATEGORY = "top";
+
+// Every news_<category>.json the pipeline publishes
+export const PUBLISHED_CATEGORIES = [GENERAL_CATEGORY, ...NEWS_CATEGORIES, TOP_CATEGORY];
+
+export interface NewsSource {
+  id: string;
+  url: string;
+  name: string;
+  category: string;
+  enabled: boolean;
+  language: string;
+  priority: number;
+  fetch_interval_minutes: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SourceRegistry {
+  updated_at: string;
+  sources: NewsSource[];
+}
+
+const REGISTRY_PATH = "config/sources.json";
+
+const DEFAULT_LANGUAGE = "it";
+const DEFAULT_PRIORITY = 5;
+const DEFAULT_FETCH_INTERVAL_MINUTES = 120;
+
+// Seed list used the first time the registry is loaded. After that the
+// registry in Storage is the source of truth and this map is never read.
+const DEFAULT_RSS_SOURCES: Record<string, Array<{url: string; name: string}>> = {
+  politics: [
+    {url: "https://www.ansa.it/sito/notizie/politica/politica_rss.xml", name: "ANSA Politics"},
+    {url: "https://www.repubblica.it/rss/politica/rss2.0.xml", name: "La Repubblica Politics"},
+    {url: "https://xml2.corriereobjects.it/rss/politica.xml", name: "Corriere Politica"},
+    {url: "https://www.lastampa.it/rss/politica", name: "La Stampa Politics"},
+    {url: "https://www.ilsole24ore.com/rss/italia.xml", name: "Il Sole 24 Ore Italia"},
+    {url: "https://www.agi.it/politica/rss", name: "AGI Politics"},
+    {url: "https://www.adnkronos.com/rss/politica.xml", name: "Adnkronos Politics"},
+    {url: "https://www.rainews.it/rss/politica.xml", name: "RaiNews Politics"},
+    {url: "https://tg24.sky.it/politica/rss", name: "Sky TG24 Politics"},
+    {url: "https://www.fanpage.it/politica/feed/", name: "Fanpage Politics"},
+    {url: "https://www.ilpost.it/feed/", name: "Il Post"},
+    {url: "https://www.ilfattoquotidiano.it/feed/", name: "Il Fatto Quotidiano"},
+    {url: "https://www.huffingtonpost.it/rss/", name: "Huffington Post Italia"},
+  ],
+  sports: [
+    {url: "https://www.gazzetta.it/rss/calcio.xml", name: "Gazzetta Sport"},
+    {url: "https://www.corrieredellosport.it/rss/home.xml", name: "Corriere Sport"},
+    {url: "https://www.ansa.it/sito/notizie/sport/sport_rss.xml", name: "ANSA Sport"},
+    {url: "https://www.tuttosport.com/rss/", name: "Tuttosport"},
+    {url: "https://www.calciomercato.com/rss/", name: "Calciomercato"},
+    {url: "https://sport.sky.it/rss/homepage.xml", name: "Sky Sport"},
+    {url: "https://www.sportmediaset.mediaset.it/rss/homepage.xml", name: "Sport Mediaset"},
+    {url: "https://www.rainews.it/rss/sport.xml", name: "RaiNews Sport"},
+    {url: "https://tg24.sky.it/sport/rss", name: "Sky TG24 Sport"},
+    {url: "https://www.fanpage.it/sport/feed/", name: "Fanpage Sport"},
+    {url: "https://www.repubblica.it/rss/sport/rss2.0.xml", name: "La Repubblica Sport"},
+    {url: "https://www.eurosport.it/rss.xml", name: "Eurosport Italia"},
+  ],
+  technology: [
+    {url: "https://www.ansa.it/sito/notizie/tecnologia/tecnologia_rss.xml", name: "ANSA Tech"},
+    {url: "https://www.hwupgrade.it/rss/news.xml", name: "HWUpgrade"},
+    {url: "https://www.tomshw.it/feed", name: "Tom's Hardware"},
+    {url: "https://www.punto-informatico.it/feed/", name: "Punto Informatico"},
+    {url: "https://www.agi.it/innovazione/rss", name: "AGI Tech"},
+    {url: "https://www.rainews.it/rss/tecnologia.xml", name: "RaiNews Tech"},
+    {url: "https://www.wired.it/feed/rss", name: "Wired Italia"},
+    {url: "https://www.dday.it/rss", name: "DDay.it"},
+  ],
+  entertainment: [
+    {url: "https://www.ansa.it/sito/notizie/cultura/cultura_rss.xml", name: "ANSA Culture"},
+    {url: "https://www.repubblica.it/rss/spettacoli/rss2.0.xml", name: "La Repubblica Entertainment"},
+    {url: "https://www.cinematographe.it/feed/", name: "Cinematographe"},
+    {url: "https://www.comingsoon.it/rss/cinema.rss", name: "Coming Soon Cinema"},
+    {url: "https://www.agi.it/cultura/rss", name: "AGI Culture"},
+    {url: "https://www.fanpage.it/spettacolo/feed/", name: "Fanpage Entertainment"},
+    {url: "https://www.mymovies.it/rss/", name: "MyMovies"},
+    {url: "https://www.rockol.it/rss", name: "Rockol Music"},
+  ],
+  business: [
+    {url: "https://www.ilsole24ore.com/rss/economia.xml", name: "Il Sole 24 Ore"},
+    {url: "https://www.ansa.it/sito/notizie/economia/economia_rss.xml", name: "ANSA Business"},
+    {url: "https://www.repubblica.it/rss/economia/rss2.0.xml", name: "La Repubblica Economy"},
+    {url: "https://www.corriere.it/rss/economia.xml", name: "Corriere Economia"},
+    {url: "https://www.agi.it/economia/rss", name: "AGI Business"},
+    {url: "https://www.adnkronos.com/rss/economia.xml", name: "Adnkronos Business"},
+    {url: "https://tg24.sky.it/economia/rss", name: "Sky TG24 Business"},
+    {url: "https://www.milanofinanza.it/rss", name: "Milano Finanza"},
+    {url: "https://www.startmag.it/feed/", name: "StartMag"},
+  ],
+  world: [
+    {url: "https://www.ansa.it/sito/notizie/mondo/mondo_rss.xml", name: "ANSA World"},
+    {url: "https://www.repubblica.it/rss/esteri/rss2.0.xml", name: "La Repubblica World"},
+    {url: "https://www.corriere.it/rss/esteri.xml", name: "Corriere Esteri"},
+    {url: "https://www.ilpost.it/feed/", name: "Il Post International"},
+    {url: "https://www.lastampa.it/rss/esteri", name: "La Stampa World"},
+    {url: "https://www.ilfattoquotidiano.it/feed/", name: "Il Fatto World"},
+    {url: "https://www.agi.it/estero/rss", name: "AGI World"},
+    {url: "https://www.adnkronos.com/rss/esteri.xml", name: "Adnkronos World"},
+    {url: "https://www.rainews.it/rss/mondo.xml", name: "RaiNews World"},
+    {url: "https://tg24.sky.it/mondo/rss", name: "Sky TG24 World"},
+  ],
+  crime: [
+    {url: "https://www.ansa.it/sito/notizie/cronaca/cronaca_rss.xml", name: "ANSA Crime"},
+    {url: "https://www.repubblica.it/rss/cronaca/rss2.0.xml", name: "La Repubblica Crime"},
+    {url: "https://www.corriere.it/rss/cronache.xml", name: "Corriere Cronache"},
+    {url: "https://www.agi.it/cronaca/rss", name: "AGI Crime"},
+    {url: "https://www.adnkronos.com/rss/cronaca.xml", name: "Adnkronos Crime"},
+    {url: "https://www.fanpage.it/cronaca/feed/", name: "Fanpage Crime"},
+    {url: "https://www.rainews.it/rss/cronaca.xml", name: "RaiNews Crime"},
+  ],
+  automotive: [
+    {url: "https://www.quattroruote.it/rss/news.xml", name: "Quattroruote"},
+    {url: "https://www.autoblog.it/feed/", name: "Autoblog"},
+    {url: "https://www.omniauto.it/feed/", name: "OmniAuto"},
+    {url: "https://www.alvolante.it/rss", name: "Al Volante"},
+    {url: "https://www.automoto.it/feed", name: "AutoMoto"},
+    {url: "https://www.auto.it/rss/news", name: "Auto.it"},
+    {url: "https://motori.corriere.it/rss/home.xml", name: "Corriere Motori"},
+  ],
+  lifestyle: [
+    {url: "https://www.lacucinaitaliana.it/rss", name: "La Cucina Italiana"},
+    {url: "https://www.dissapore.com/feed/", name: "Dissapore"},
+    {url: "https://www.donnamoderna.com/rss/", name: "Donna Moderna"},
+    {url: "https://www.elle.com/it/rss/", name: "Elle Italia"},
+    {url: "https://www.grazia.it/rss/", name: "Grazia"},
+    {url: "https://www.marieclaire.com/it/rss/", name: "Marie Claire Italia"},
+    {url: "https://www.vanityfair.it/feed", name: "Vanity Fair Italia"},
+    {url: "https://www.vogue.it/feed", name: "Vogue Italia"},
+    {url: "https://www.gamberorosso.it/feed/", name: "Gambero Rosso"},
+  ],
+};
+
+export function slugifySourceName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+export function createSource(fields: Partial<NewsSource> & {url: string; name: string; category: string}): NewsSource {
+  const now = new Date().toISOString();
+  return {
+    id: fields.id || slugifySourceName(fields.name),
+    url: fields.url.trim(),
+    name: fields.name.trim(),
+    category: fields.category,
+    enabled: fields.enabled ?? true,
+    language: fields.language || DEFAULT_LANGUAGE,
+    priority: fields.priority ?? DEFAULT_PRIORITY,
+    fetch_interval_minutes: fields.fetch_interval_minutes ?? DEFAULT_FETCH_INTERVAL_MINUTES,
+    created_at: fields.created_at || now,
+    updated_at: now,
+  };
+}
+
+function buildDefaultRegistry(): SourceRegistry {
+  const sources: NewsSource[] = [];
+  for (const [category, entries] of Object.entries(DEFAULT_RSS_SOURCES)) {
+    for (const entry of entries) {
+      sources.push(createSource({url: entry.url, name: entry.name, category}));
+    }
+  }
+  return {
+    updated_at: new Date().toISOString(),
+    sources,
+  };
+}
+
+/**
+ * Loads the source registry from Storage, seeding it from the built-in
+ * defaults when it does not exist yet. The returned generation is passed
+ * back to saveSourceRegistry so concurrent admin edits can't overwrite
+ * each other. With `seed: false` (dry runs) the defaults are returned
+ * without being written, with generation 0.
+ */
+export async function loadSourceRegistry(
+  options: {seed?: boolean} = {}
+): Promise<{registry: SourceRegistry; generation: number}> {
+  const bucket = admin.storage().bucket();
+  const file = bucket.file(REGISTRY_PATH);
+
+  const [exists] = await file.exists();
+  if (!exists) {
+    const registry = buildDefaultRegistry();
+    if (options.seed === false) return {registry, generation: 0};
+    try {
+      const generation = await saveSourceRegistry(registry, 0);
+      logger.info("Seeded source registry", {sources: registry.sources.length});
+      return {registry, generation};
+    } catch (error) {
+      // Category jobs starting together all find it missing; one of them
+      // seeds it and the rest read that copy
+      if (!isPreconditionFailure(error)) throw error;
+    }
+  }
+
+  const [data] = await file.download();
+  const [metadata] = await file.getMetadata();
+  const registry: SourceRegistry = JSON.parse(data.toString());
+
+  return {
+    registry: {
+      updated_at: registry.updated_at,
+      sources: registry.sources || [],
+    },
+    generation: Number(metadata.generation),
+  };
+}
+
+/**
+ * Writes the registry. `generation` must be the value returned by
+ * loadSourceRegistry (0 when creating the file); the write fails if the
+ * file has changed in the meantime.
+ */
+export async function saveSourceRegistry(registry: SourceRegistry, generation: number): Promise<number> {
+  const bucket = admin.storage().bucket();
+  const file = bucket.file(REGISTRY_PATH);
+
+  registry.updated_at = new Date().toISOString();
+
+  await file.save(JSON.stringify(registry, null, 2), {
+    contentType: "application/json",
+    metadata: {
+      cacheControl: "no-cache",
+    },
+    preconditionOpts: {
+      ifGenerationMatch: generation,
+    },
+  });
+
+  const [metadata] = await file.getMetadata();
+  return Number(metadata.generation);
+}
+
+/**
+ * Enabled sources grouped by category, highest priority first. Every known
+ * category is present in the result, even when it has no enabled sources.
+ */
+export function groupSourcesByCategory(registry: SourceRegistry): Record<string, NewsSource[]> {
+  const grouped: Record<string, NewsSource[]> = {};
+  for (const category of NEWS_CATEGORIES) {
+    grouped[category] = [];
+  }
+
+  for (const source of registry.sources) {
+    if (!source.enabled || !grouped[source.category]) {
+      continue;
+    }
+    grouped[source.category].push(source);
+  }
+
+  for (const category of Object.keys(grouped)) {
+    grouped[category].sort((a, b) => b.priority - a.priority);
+  }
+
+  return grouped;
+}
+
+export function isSourceDue(source: NewsSource, lastFetchedAt: string | undefined, now: number = Date.now()): boolean {
+  if (!lastFetchedAt) return true;
+
+  const last = new Date(lastFetchedAt).getTime();
+  if (isNaN(last)) return true;
+
+  // Small tolerance so a 120 minute interval still fires on a cron that
+  // drifts a few seconds around its 2 hour schedule.
+  const toleranceMs = 5 * 60 * 1000;
+  return now - last + toleranceMs >= source.fetch_interval_minutes * 60 * 1000;
+}
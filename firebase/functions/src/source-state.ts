@@ -0,0 +1,73 @@
+import * as admin from "firebase-admin";
+import {SourceHealth} from "./source-health";
+import {PipelineLogger} from "./pipeline-logger";
+import {updateJSONFile} from "./shared-helpers";
+
+// Validators from the last successful feed response, only reused while the
+// source still points at the same URL.
+export interface FeedHttpCache {
+  url: string;
+  etag?: string;
+  last_modified?: string;
+}
+
+export interface SourceStateEntry {
+  last_fetched_at?: string;
+  health?: SourceHealth;
+  http_cache?: FeedHttpCache;
+}
+
+export interface SourceState {
+  updated_at: string;
+  sources: Record<string, SourceStateEntry>;
+}
+
+const STATE_PATH = "pipeline/source_state.json";
+
+/**
+ * Per-source bookkeeping written by the pipeline (never by admins), kept
+ * apart from the registry so a run can't clobber a concurrent admin edit.
+ */
+export async function loadSourceState(logger: PipelineLogger = new PipelineLogger()): Promise<SourceState> {
+  try {
+    const bucket = admin.storage().bucket();
+    const file = bucket.file(STATE_PATH);
+
+    const [exists] = await file.exists();
+    if (!exists) {
+      return {updated_at: new Date().toISOString(), sources: {}};
+    }
+
+    const [data] = await file.download();
+    const state: SourceState = JSON.parse(data.toString());
+    return {
+      updated_at: state.updated_at,
+      sources: state.sources || {},
+    };
+  } catch (error) {
+    logger.error("Failed to load source state, starting fresh", error);
+    return {updated_at: new Date().toISOString(), sources: {}};
+  }
+}
+
+/**
+ * Writes back only the given sources' entries, merged into the latest state
+ * in Storage. Category jobs run side by side, each owning its own sources,
+ * so a plain save would drop the other jobs' updates.
+ */
+export async function saveSourceStateEntries(state: SourceState, sourceIds: string[]): Promise<void> {
+  await updateJSONFile<SourceState>(STATE_PATH, (latest) => {
+    const next: SourceState = {updated_at: new Date().toISOString(), sources: latest?.sources || {}};
+    for (const id of sourceIds) {
+      if (state.sources[id]) next.sources[id] = state.sources[id];
+    }
+    return next;
+  });
+}
+
+export function getSourceStateEntry(state: SourceState, sourceId: string): SourceStateEntry {
+  if (!state.sources[sourceId]) {
+    state.sources[sourceId] = {};
+  }
+  return state.sources[sourceId];
+}
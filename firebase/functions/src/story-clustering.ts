@@ -0,0 +1,227 @@
+export interface RelatedSource {
+  id?: string;
+  source: string;
+  url: string;
+  title: string;
+  published_at: string;
+}
+
+export interface ClusterableArticle {
+  id?: string;
+  title: string;
+  url: string;
+  summary: string;
+  published_at: string;
+  source: string;
+  related_sources?: RelatedSource[];
+}
+
+const SHINGLE_SIZE = 3;
+const NUM_HASHES = 64;
+const BAND_ROWS = 2;
+const SIMILARITY_THRESHOLD = 0.45;
+// Only stories published this close together are treated as the same story
+const MAX_TIME_DISTANCE_MS = 48 * 60 * 60 * 1000;
+
+// Words that carry no information about which story an article covers
+const STOP_WORDS = new Set([
+  "il", "lo", "la", "i", "gli", "le", "un", "uno", "una", "di", "del", "dello", "della", "dei", "degli",
+  "delle", "a", "al", "allo", "alla", "ai", "agli", "alle", "da", "dal", "dalla", "dai", "dalle", "in",
+  "nel", "nello", "nella", "nei", "negli", "nelle", "su", "sul", "sulla", "sui", "sulle", "con", "per",
+  "tra", "fra", "e", "ed", "o", "ma", "che", "non", "si", "è", "ha", "sono", "come", "anche", "più",
+  "the", "a", "an", "of", "to", "and", "or", "in", "on", "for", "with", "is", "are", "was", "by", "at",
+]);
+
+function normalizeWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word));
+}
+
+function buildShingles(article: ClusterableArticle): Set<string> {
+  const words = normalizeWords(`${article.title} ${article.summary || ""}`);
+  const shingles = new Set<string>();
+
+  if (words.length < SHINGLE_SIZE) {
+    if (words.length > 0) shingles.add(words.join(" "));
+    return shingles;
+  }
+
+  for (let i = 0; i <= words.length - SHINGLE_SIZE; i++) {
+    shingles.add(words.slice(i, i + SHINGLE_SIZE).join(" "));
+  }
+  return shingles;
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Fixed coefficients so signatures are reproducible between runs
+const HASH_COEFFICIENTS = Array.from({length: NUM_HASHES}, (_, i) => ({
+  a: (fnv1a(`a${i}`) | 1) >>> 0,
+  b: fnv1a(`b${i}`),
+}));
+
+function minHashSignature(shingles: Set<string>): number[] {
+  const signature = new Array(NUM_HASHES).fill(0xffffffff);
+  for (const shingle of shingles) {
+    const base = fnv1a(shingle);
+    for (let i = 0; i < NUM_HASHES; i++) {
+      const {a, b} = HASH_COEFFICIENTS[i];
+      const value = (Math.imul(a, base) + b) >>> 0;
+      if (value < signature[i]) signature[i] = value;
+    }
+  }
+  return signature;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let intersection = 0;
+  const [smaller, larger] = a.size < b.size ? [a, b] : [b, a];
+  for (const item of smaller) {
+    if (larger.has(item)) intersection++;
+  }
+  return intersection / (a.size + b.size - intersection);
+}
+
+function publishedTime(article: ClusterableArticle): number {
+  const time = new Date(article.published_at).getTime();
+  return isNaN(time) ? 0 : time;
+}
+
+function findRoot(parents: number[], i: number): number {
+  while (parents[i] !== i) {
+    parents[i] = parents[parents[i]];
+    i = parents[i];
+  }
+  return i;
+}
+
+/**
+ * Picks the article shown for a story. A story built in an earlier run keeps
+ * its primary so the story id stays stable; otherwise it is the earliest
+ * article with a real summary (usually the original wire copy), falling
+ * back to the earliest.
+ */
+function choosePrimary<T extends ClusterableArticle>(members: T[], hasSummary: (article: T) => boolean): T {
+  const byTime = [...members].sort((a, b) => publishedTime(a) - publishedTime(b));
+  const previous = byTime.find((article) => article.related_sources?.length > 0);
+  return previous || byTime.find(hasSummary) || byTime[0];
+}
+
+function toRelatedSource(article: ClusterableArticle): RelatedSource {
+  return {
+    id: article.id,
+    source: article.source,
+    url: article.url,
+    title: article.title,
+    published_at: article.published_at,
+  };
+}
+
+/**
+ * Groups near-identical articles (MinHash over title + summary shingles,
+ * confirmed by exact Jaccard similarity) into a single story. Each story is
+ * returned as its primary article with the other outlets, plus any
+ * related sources from earlier runs, in `related_sources`.
+ */
+export function clusterStories<T extends ClusterableArticle>(
+  articles: T[],
+  hasSummary: (article: T) => boolean = (article) => !!article.summary
+): {stories: T[]; merged: number} {
+  if (articles.length < 2) {
+    return {stories: articles, merged: 0};
+  }
+
+  const shingles = articles.map(buildShingles);
+  const signatures = shingles.map(minHashSignature);
+  const parents = articles.map((_, i) => i);
+
+  const buckets = new Map<string, number[]>();
+  for (let i = 0; i < articles.length; i++) {
+    if (shingles[i].size === 0) continue;
+    for (let band = 0; band < NUM_HASHES / BAND_ROWS; band++) {
+      const rows = signatures[i].slice(band * BAND_ROWS, (band + 1) * BAND_ROWS);
+      const key = `${band}:${rows.join(",")}`;
+      const bucket = buckets.get(key);
+      if (bucket) {
+        bucket.push(i);
+      } else {
+        buckets.set(key, [i]);
+      }
+    }
+  }
+
+  const compared = new Set<string>();
+  for (const bucket of buckets.values()) {
+    if (bucket.length < 2) continue;
+    for (let x = 0; x < bucket.length; x++) {
+      for (let y = x + 1; y < bucket.length; y++) {
+        const i = bucket[x];
+        const j = bucket[y];
+        const pairKey = `${i}:${j}`;
+        if (compared.has(pairKey)) continue;
+        compared.add(pairKey);
+
+        if (Math.abs(publishedTime(articles[i]) - publishedTime(articles[j])) > MAX_TIME_DISTANCE_MS) continue;
+        if (jaccard(shingles[i], shingles[j]) < SIMILARITY_THRESHOLD) continue;
+
+        parents[findRoot(parents, i)] = findRoot(parents, j);
+      }
+    }
+  }
+
+  const clusters = new Map<number, T[]>();
+  for (let i = 0; i < articles.length; i++) {
+    const root = findRoot(parents, i);
+    const members = clusters.get(root);
+    if (members) {
+      members.push(articles[i]);
+    } else {
+      clusters.set(root, [articles[i]]);
+    }
+  }
+
+  const stories: T[] = [];
+  let merged = 0;
+
+  for (const members of clusters.values()) {
+    if (members.length === 1) {
+      stories.push(members[0]);
+      continue;
+    }
+
+    const primary = choosePrimary(members, hasSummary);
+    const related = new Map<string, RelatedSource>();
+
+    for (const member of members) {
+      if (member !== primary) {
+        related.set(member.url, toRelatedSource(member));
+      }
+      for (const previous of member.related_sources || []) {
+        related.set(previous.url, previous);
+      }
+    }
+    related.delete(primary.url);
+
+    stories.push({
+      ...primary,
+      related_sources: Array.from(related.values())
+        .sort((a, b) => new Date(a.published_at).getTime() - new Date(b.published_at).getTime()),
+    });
+    merged += members.length - 1;
+  }
+
+  return {stories, merged};
+}
@@ -0,0 +1,212 @@
+import axios from "axios";
+import {SupportedLanguage, detectLanguage} from "./language-detection";
+import {summarizeExtractive} from "./extractive-summarizer";
+import {PipelineLogger} from "./pipeline-logger";
+import {envNumber} from "./shared-helpers";
+
+export interface SummarizeOptions {
+  title?: string;
+  // Language configured for the source, used when detection is inconclusive
+  language?: string;
+  minWords: number;
+  maxWords: number;
+}
+
+/**
+ * A summarisation backend. `summarize` resolves to null when the provider
+ * has nothing usable to offer, and rejects on transport errors; either way
+ * the next provider in the chain is tried.
+ */
+export interface Summarizer {
+  readonly name: string;
+  summarize(text: string, options: SummarizeOptions): Promise<string | null>;
+}
+
+export interface SummaryResult {
+  summary: string;
+  provider: string;
+}
+
+function asSupportedLanguage(language: string | undefined): SupportedLanguage | null {
+  return language === "it" || language === "en" ? language : null;
+}
+
+export class HuggingFaceSummarizer implements Summarizer {
+  readonly name = "huggingface";
+
+  constructor(
+    private apiKey: string,
+    private model: string = "facebook/bart-large-cnn",
+    private timeoutMs: number = 10000,
+    private baseUrl: string = "https://api-inference.huggingface.co/models"
+  ) {}
+
+  async summarize(text: string, options: SummarizeOptions): Promise<string | null> {
+    const response = await axios.post(`${this.baseUrl}/${this.model}`, {
+      inputs: text.substring(0, 1024),
+      parameters: {
+        // Tokens, not words: roughly 1.5 per word
+        max_length: Math.round(options.maxWords * 1.5),
+        min_length: options.minWords,
+        do_sample: false,
+      },
+    }, {
+      headers: {
+        "Authorization": `Bearer ${this.apiKey}`,
+        "Content-Type": "application/json",
+      },
+      timeout: this.timeoutMs,
+    });
+
+    return response.data?.[0]?.summary_text || null;
+  }
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API (OpenAI itself, vLLM,
+ * Ollama, LM Studio, ...). `baseUrl` is the API root, e.g.
+ * `http://localhost:11434/v1`.
+ */
+export class OpenAICompatibleSummarizer implements Summarizer {
+  readonly name = "openai";
+
+  constructor(
+    private baseUrl: string,
+    private model: string,
+    private apiKey?: string,
+    private timeoutMs: number = 15000
+  ) {}
+
+  async summarize(text: string, options: SummarizeOptions): Promise<string | null> {
+    const headers: Record<string, string> = {"Content-Type": "application/json"};
+    if (this.apiKey) {
+      headers["Authorization"] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await axios.post(`${this.baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+      model: this.model,
+      temperature: 0.2,
+      max_tokens: options.maxWords * 3,
+      messages: [
+        {
+          role: "system",
+          content: `Summarise the news article in ${options.minWords}-${options.maxWords} words, ` +
+            "in the same language as the article. Reply with the summary only.",
+        },
+        {
+          role: "user",
+          content: options.title ? `${options.title}\n\n${text.substring(0, 4000)}` : text.substring(0, 4000),
+        },
+      ],
+    }, {
+      headers,
+      timeout: this.timeoutMs,
+    });
+
+    const content = response.data?.choices?.[0]?.message?.content;
+    return typeof content === "string" && content.trim() ? content.trim() : null;
+  }
+}
+
+/**
+ * Offline fallback: TextRank sentence extraction tuned for the article's
+ * language (detected from the text, else the source's language). Never
+ * fails on real text, so it belongs at the end of every chain.
+ */
+export class ExtractiveSummarizer implements Summarizer {
+  readonly name = "extractive";
+
+  async summarize(text: string, options: SummarizeOptions): Promise<string | null> {
+    const language = detectLanguage(text) || asSupportedLanguage(options.language);
+    return summarizeExtractive(text, language, options);
+  }
+}
+
+/**
+ * Builds the provider chain from the environment:
+ *
+ * - SUMMARIZER_PROVIDERS: comma-separated order to try, default
+ *   "huggingface,extractive". The extractive provider is always appended.
+ * - HUGGINGFACE_API_KEY, HUGGINGFACE_MODEL, HUGGINGFACE_TIMEOUT_MS
+ * - OPENAI_COMPAT_URL, OPENAI_COMPAT_MODEL, OPENAI_COMPAT_API_KEY,
+ *   OPENAI_COMPAT_TIMEOUT_MS
+ *
+ * Providers that are listed but not configured are skipped with a warning.
+ */
+export function createSummarizerChain(
+  env: NodeJS.ProcessEnv = process.env,
+  logger: PipelineLogger = new PipelineLogger()
+): Summarizer[] {
+  const names = (env.SUMMARIZER_PROVIDERS || "huggingface,extractive")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter((name) => name.length > 0);
+
+  const chain: Summarizer[] = [];
+
+  for (const name of names) {
+    switch (name) {
+    case "huggingface":
+      if (!env.HUGGINGFACE_API_KEY) {
+        logger.warn("Summarizer huggingface skipped: HUGGINGFACE_API_KEY is not set");
+        break;
+      }
+      chain.push(new HuggingFaceSummarizer(
+        env.HUGGINGFACE_API_KEY,
+        env.HUGGINGFACE_MODEL || undefined,
+        envNumber("HUGGINGFACE_TIMEOUT_MS", 10000, env),
+        env.HUGGINGFACE_BASE_URL || undefined
+      ));
+      break;
+    case "openai":
+      if (!env.OPENAI_COMPAT_URL || !env.OPENAI_COMPAT_MODEL) {
+        logger.warn("Summarizer openai skipped: OPENAI_COMPAT_URL and OPENAI_COMPAT_MODEL are required");
+        break;
+      }
+      chain.push(new OpenAICompatibleSummarizer(
+        env.OPENAI_COMPAT_URL,
+        env.OPENAI_COMPAT_MODEL,
+        env.OPENAI_COMPAT_API_KEY,
+        envNumber("OPENAI_COMPAT_TIMEOUT_MS", 15000, env)
+      ));
+      break;
+    case "extractive":
+      chain.push(new ExtractiveSummarizer());
+      break;
+    default:
+      logger.warn(`Unknown summarizer provider: ${name}`);
+    }
+  }
+
+  if (!chain.some((summarizer) => summarizer.name === "extractive")) {
+    chain.push(new ExtractiveSummarizer());
+  }
+
+  return chain;
+}
+
+/**
+ * Tries each provider in order and returns the first usable summary with
+ * the name of the provider that wrote it, or null if all of them failed.
+ */
+export async function summarizeWithChain(
+  chain: Summarizer[],
+  text: string,
+  options: SummarizeOptions,
+  logger: PipelineLogger = new PipelineLogger()
+): Promise<SummaryResult | null> {
+  for (const summarizer of chain) {
+    try {
+      const summary = await summarizer.summarize(text, options);
+      if (summary && summary.trim()) {
+        return {summary: summary.trim(), provider: summarizer.name};
+      }
+    } catch (error) {
+      logger.warn(`Summarizer ${summarizer.name} failed`, {
+        provider: summarizer.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return null;
+}
@@ -0,0 +1,126 @@
+export interface ScheduledTask<T> {
+  // Requests to the same host share the per-host limit
+  host: string;
+  // Higher starts first
+  priority: number;
+  // Started from inside a running task (an article's image requests):
+  // takes no global slot, is never skipped, and counts against the host
+  // separately, since sharing the parent's count would deadlock when both
+  // are on the same host
+  nested?: boolean;
+  run: () => Promise<T>;
+}
+
+export type TaskOutcome<T> =
+  {status: "done"; value: T} |
+  // Not started because the time budget ran out
+  {status: "skipped"};
+
+export interface SchedulerOptions {
+  concurrency: number;
+  perHostConcurrency: number;
+  // Epoch milliseconds after which no task is started
+  deadline: number;
+}
+
+interface QueuedTask {
+  task: ScheduledTask<any>;
+  // Ties in priority keep submission order
+  sequence: number;
+  resolve: (outcome: TaskOutcome<any>) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Runs tasks with a global and a per-host concurrency limit, highest
+ * priority first. Tasks still queued at the deadline are skipped rather
+ * than started; running ones, and the nested tasks they start, are left
+ * to finish.
+ */
+export class TaskScheduler {
+  private queue: QueuedTask[] = [];
+  private running = 0;
+  private runningByHost = new Map<string, number>();
+  private nestedByHost = new Map<string, number>();
+  private sequence = 0;
+  private skipped = 0;
+  private drainQueued = false;
+
+  constructor(private options: SchedulerOptions) {}
+
+  schedule<T>(task: ScheduledTask<T>): Promise<TaskOutcome<T>> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({task, sequence: this.sequence++, resolve, reject});
+      // Deferred so everything submitted in the same tick is ranked
+      // together, rather than the first few starting whatever their priority
+      if (!this.drainQueued) {
+        this.drainQueued = true;
+        queueMicrotask(() => {
+          this.drainQueued = false;
+          this.drain();
+        });
+      }
+    });
+  }
+
+  remainingMs(now: number = Date.now()): number {
+    return Math.max(0, this.options.deadline - now);
+  }
+
+  get skippedCount(): number {
+    return this.skipped;
+  }
+
+  private drain() {
+    if (this.remainingMs() === 0) {
+      const expired = this.queue.filter((entry) => !entry.task.nested);
+      this.queue = this.queue.filter((entry) => entry.task.nested);
+      this.skipped += expired.length;
+      expired.forEach((entry) => entry.resolve({status: "skipped"}));
+    }
+
+    this.queue.sort((a, b) => b.task.priority - a.task.priority || a.sequence - b.sequence);
+    for (let i = 0; i < this.queue.length;) {
+      const {host, nested} = this.queue[i].task;
+      const byHost = nested ? this.nestedByHost : this.runningByHost;
+      if ((!nested && this.running >= this.options.concurrency) ||
+        (byHost.get(host) || 0) >= this.options.perHostConcurrency) {
+        i++;
+        continue;
+      }
+      this.start(this.queue.splice(i, 1)[0]);
+    }
+  }
+
+  private start(entry: QueuedTask) {
+    const {host, nested} = entry.task;
+    const byHost = nested ? this.nestedByHost : this.runningByHost;
+    if (!nested) this.running++;
+    byHost.set(host, (byHost.get(host) || 0) + 1);
+
+    const finish = () => {
+      if (!nested) this.running--;
+      byHost.set(host, byHost.get(host) - 1);
+      this.drain();
+    };
+
+    entry.task.run().then(
+      (value) => {
+        finish();
+        entry.resolve({status: "done", value});
+      },
+      (error) => {
+        finish();
+        entry.reject(error);
+      }
+    );
+  }
+}
+
+export function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return url;
+  }
+}
@@ -0,0 +1,68 @@
+export interface CoveredStory {
+  source: string;
+  published_at: string;
+  related_sources?: Array<{source: string; published_at: string}>;
+}
+
+export interface TopStoryScore {
+  // Distinct outlets covering the story, the primary one included
+  outlet_count: number;
+  // Articles published within the growth window
+  recent_coverage: number;
+  trend_score: number;
+}
+
+// Stories covered by fewer outlets are not top stories, however fresh
+const MIN_OUTLETS = 2;
+// Score halves every this many hours since the latest coverage
+const RECENCY_HALF_LIFE_HOURS = 6;
+// Coverage newer than this counts as growth
+const GROWTH_WINDOW_HOURS = 3;
+
+function hoursSince(iso: string, now: number): number {
+  const time = new Date(iso).getTime();
+  return isNaN(time) ? Infinity : Math.max(0, (now - time) / 3600000);
+}
+
+/**
+ * Scores a clustered story by how many distinct outlets cover it, how
+ * recently the latest of them did, and what share of its coverage arrived
+ * in the last few hours. Returns null for single-outlet stories.
+ */
+export function scoreTopStory(story: CoveredStory, now: number = Date.now()): TopStoryScore | null {
+  const coverage = [story, ...(story.related_sources || [])];
+  const outlets = new Set(coverage.map((item) => item.source.trim().toLowerCase()));
+  if (outlets.size < MIN_OUTLETS) return null;
+
+  const ages = coverage.map((item) => hoursSince(item.published_at, now));
+  const latest = Math.min(...ages);
+  if (!isFinite(latest)) return null;
+
+  const recent = ages.filter((age) => age <= GROWTH_WINDOW_HOURS).length;
+  const growth = recent / coverage.length;
+
+  const trendScore = Math.pow(outlets.size, 1.2) *
+    Math.pow(0.5, latest / RECENCY_HALF_LIFE_HOURS) *
+    (1 + growth);
+
+  return {
+    outlet_count: outlets.size,
+    recent_coverage: recent,
+    trend_score: Math.round(trendScore * 1000) / 1000,
+  };
+}
+
+/** The `limit` highest-scoring multi-outlet stories, best first. */
+export function rankTopStories<T extends CoveredStory>(
+  stories: T[],
+  limit: number,
+  now: number = Date.now()
+): Array<T & TopStoryScore> {
+  return stories
+    .flatMap((story) => {
+      const score = scoreTopStory(story, now);
+      return score ? [{...story, ...score}] : [];
+    })
+    .sort((a, b) => b.trend_score - a.trend_score)
+    .slice(0, limit);
+}
@@ -2,127 +2,103 @@ import * as admin from "firebase-admin";
 import axios from "axios";
 import {XMLParser} from "fast-xml-parser";
 import * as cheerio from "cheerio";
-
-const RSS_SOURCES: Record<string, Array<{url: string; name: string}>> = {
-  politics: [
-    {url: "https://www.ansa.it/sito/notizie/politica/politica_rss.xml", name: "ANSA Politics"},
-    {url: "https://www.repubblica.it/rss/politica/rss2.0.xml", name: "La Repubblica Politics"},
-    {url: "https://xml2.corriereobjects.it/rss/politica.xml", name: "Corriere Politica"},
-    {url: "https://www.lastampa.it/rss/politica", name: "La Stampa Politics"},
-    {url: "https://www.ilsole24ore.com/rss/italia.xml", name: "Il Sole 24 Ore Italia"},
-    {url: "https://www.agi.it/politica/rss", name: "AGI Politics"},
-    {url: "https://www.adnkronos.com/rss/politica.xml", name: "Adnkronos Politics"},
-    {url: "https://www.rainews.it/rss/politica.xml", name: "RaiNews Politics"},
-    {url: "https://tg24.sky.it/politica/rss", name: "Sky TG24 Politics"},
-    {url: "https://www.fanpage.it/politica/feed/", name: "Fanpage Politics"},
-    {url: "https://www.ilpost.it/feed/", name: "Il Post"},
-    {url: "https://www.ilfattoquotidiano.it/feed/", name: "Il Fatto Quotidiano"},
-    {url: "https://www.huffingtonpost.it/rss/", name: "Huffington Post Italia"},
-  ],
-  sports: [
-    {url: "https://www.gazzetta.it/rss/calcio.xml", name: "Gazzetta Sport"},
-    {url: "https://www.corrieredellosport.it/rss/home.xml", name: "Corriere Sport"},
-    {url: "https://www.ansa.it/sito/notizie/sport/sport_rss.xml", name: "ANSA Sport"},
-    {url: "https://www.tuttosport.com/rss/", name: "Tuttosport"},
-    {url: "https://www.calciomercato.com/rss/", name: "Calciomercato"},
-    {url: "https://sport.sky.it/rss/homepage.xml", name: "Sky Sport"},
-    {url: "https://www.sportmediaset.mediaset.it/rss/homepage.xml", name: "Sport Mediaset"},
-    {url: "https://www.rainews.it/rss/sport.xml", name: "RaiNews Sport"},
-    {url: "https://tg24.sky.it/sport/rss", name: "Sky TG24 Sport"},
-    {url: "https://www.fanpage.it/sport/feed/", name: "Fanpage Sport"},
-    {url: "https://www.repubblica.it/rss/sport/rss2.0.xml", name: "La Repubblica Sport"},
-    {url: "https://www.eurosport.it/rss.xml", name: "Eurosport Italia"},
-  ],
-  technology: [
-    {url: "https://www.ansa.it/sito/notizie/tecnologia/tecnologia_rss.xml", name: "ANSA Tech"},
-    {url: "https://www.hwupgrade.it/rss/news.xml", name: "HWUpgrade"},
-    {url: "https://www.tomshw.it/feed", name: "Tom's Hardware"},
-    {url: "https://www.punto-informatico.it/feed/", name: "Punto Informatico"},
-    {url: "https://www.agi.it/innovazione/rss", name: "AGI Tech"},
-    {url: "https://www.rainews.it/rss/tecnologia.xml", name: "RaiNews Tech"},
-    {url: "https://www.wired.it/feed/rss", name: "Wired Italia"},
-    {url: "https://www.dday.it/rss", name: "DDay.it"},
-  ],
-  entertainment: [
-    {url: "https://www.ansa.it/sito/notizie/cultura/cultura_rss.xml", name: "ANSA Culture"},
-    {url: "https://www.repubblica.it/rss/spettacoli/rss2.0.xml", name: "La Repubblica Entertainment"},
-    {url: "https://www.cinematographe.it/feed/", name: "Cinematographe"},
-    {url: "https://www.comingsoon.it/rss/cinema.rss", name: "Coming Soon Cinema"},
-    {url: "https://www.agi.it/cultura/rss", name: "AGI Culture"},
-    {url: "https://www.fanpage.it/spettacolo/feed/", name: "Fanpage Entertainment"},
-    {url: "https://www.mymovies.it/rss/", name: "MyMovies"},
-    {url: "https://www.rockol.it/rss", name: "Rockol Music"},
-  ],
-  business: [
-    {url: "https://www.ilsole24ore.com/rss/economia.xml", name: "Il Sole 24 Ore"},
-    {url: "https://www.ansa.it/sito/notizie/economia/economia_rss.xml", name: "ANSA Business"},
-    {url: "https://www.repubblica.it/rss/economia/rss2.0.xml", name: "La Repubblica Economy"},
-    {url: "https://www.corriere.it/rss/economia.xml", name: "Corriere Economia"},
-    {url: "https://www.agi.it/economia/rss", name: "AGI Business"},
-    {url: "https://www.adnkronos.com/rss/economia.xml", name: "Adnkronos Business"},
-    {url: "https://tg24.sky.it/economia/rss", name: "Sky TG24 Business"},
-    {url: "https://www.milanofinanza.it/rss", name: "Milano Finanza"},
-    {url: "https://www.startmag.it/feed/", name: "StartMag"},
-  ],
-  world: [
-    {url: "https://www.ansa.it/sito/notizie/mondo/mondo_rss.xml", name: "ANSA World"},
-    {url: "https://www.repubblica.it/rss/esteri/rss2.0.xml", name: "La Repubblica World"},
-    {url: "https://www.corriere.it/rss/esteri.xml", name: "Corriere Esteri"},
-    {url: "https://www.ilpost.it/feed/", name: "Il Post International"},
-    {url: "https://www.lastampa.it/rss/esteri", name: "La Stampa World"},
-    {url: "https://www.ilfattoquotidiano.it/feed/", name: "Il Fatto World"},
-    {url: "https://www.agi.it/estero/rss", name: "AGI World"},
-    {url: "https://www.adnkronos.com/rss/esteri.xml", name: "Adnkronos World"},
-    {url: "https://www.rainews.it/rss/mondo.xml", name: "RaiNews World"},
-    {url: "https://tg24.sky.it/mondo/rss", name: "Sky TG24 World"},
-  ],
-  crime: [
-    {url: "https://www.ansa.it/sito/notizie/cronaca/cronaca_rss.xml", name: "ANSA Crime"},
-    {url: "https://www.repubblica.it/rss/cronaca/rss2.0.xml", name: "La Repubblica Crime"},
-    {url: "https://www.corriere.it/rss/cronache.xml", name: "Corriere Cronache"},
-    {url: "https://www.agi.it/cronaca/rss", name: "AGI Crime"},
-    {url: "https://www.adnkronos.com/rss/cronaca.xml", name: "Adnkronos Crime"},
-    {url: "https://www.fanpage.it/cronaca/feed/", name: "Fanpage Crime"},
-    {url: "https://www.rainews.it/rss/cronaca.xml", name: "RaiNews Crime"},
-  ],
-  automotive: [
-    {url: "https://www.quattroruote.it/rss/news.xml", name: "Quattroruote"},
-    {url: "https://www.autoblog.it/feed/", name: "Autoblog"},
-    {url: "https://www.omniauto.it/feed/", name: "OmniAuto"},
-    {url: "https://www.alvolante.it/rss", name: "Al Volante"},
-    {url: "https://www.automoto.it/feed", name: "AutoMoto"},
-    {url: "https://www.auto.it/rss/news", name: "Auto.it"},
-    {url: "https://motori.corriere.it/rss/home.xml", name: "Corriere Motori"},
-  ],
-  lifestyle: [
-    {url: "https://www.lacucinaitaliana.it/rss", name: "La Cucina Italiana"},
-    {url: "https://www.dissapore.com/feed/", name: "Dissapore"},
-    {url: "https://www.donnamoderna.com/rss/", name: "Donna Moderna"},
-    {url: "https://www.elle.com/it/rss/", name: "Elle Italia"},
-    {url: "https://www.grazia.it/rss/", name: "Grazia"},
-    {url: "https://www.marieclaire.com/it/rss/", name: "Marie Claire Italia"},
-    {url: "https://www.vanityfair.it/feed", name: "Vanity Fair Italia"},
-    {url: "https://www.vogue.it/feed", name: "Vogue Italia"},
-    {url: "https://www.gamberorosso.it/feed/", name: "Gambero Rosso"},
-  ],
-};
+import {
+  GENERAL_CATEGORY,
+  NEWS_CATEGORIES,
+  NewsSource,
+  TOP_CATEGORY,
+  groupSourcesByCategory,
+  isSourceDue,
+  loadSourceRegistry,
+} from "./source-registry";
+import {
+  FeedHttpCache,
+  SourceState,
+  getSourceStateEntry,
+  loadSourceState,
+  saveSourceStateEntries,
+} from "./source-state";
+import {SourceFetchOutcome, isQuarantined, recordFetchOutcome} from "./source-health";
+import {RelatedSource, clusterStories} from "./story-clustering";
+import {DateStatus, normalizePublishedDate} from "./date-normalization";
+import {ExtractedContent, extractContent} from "./content-extraction";
+import {Summarizer, SummaryResult, createSummarizerChain, summarizeWithChain} from "./summarizer";
+import {detectLanguage} from "./language-detection";
+import {SEARCH_INDEX_PATH, buildSearchIndex} from "./search-index";
+import {rankTopStories} from "./top-stories";
+import {FeedChanges, diffArticles, recordRemovals, stampModifiedAt} from "./change-log";
+import {publishFeed, readCategoryFeed} from "./feed-storage";
+import {
+  ImageCandidate,
+  RequestLimiter,
+  feedImageCandidates,
+  pageImageCandidates,
+  processArticleImage,
+  pruneThumbnails,
+} from "./image-processing";
+import {articleIdForUrl, canonicalizeUrl, resolveCanonicalLink, urlIdentityKey} from "./url-normalization";
+import {TaskScheduler, hostOf} from "./task-scheduler";
+import {buildRunRecord, runIdFor, saveRunRecord} from "./run-history";
+import {PipelineLogger} from "./pipeline-logger";
+import {envNumber} from "./shared-helpers";
 
 interface Article {
+  // Hash of the canonical URL, stable across runs and merges
+  id: string;
   title: string;
   url: string;
   summary: string;
+  // Summarizer that wrote `summary`, or "none"
+  summary_provider?: string;
+  // Our 800x450 copy in the Storage bucket, null when no usable image
   image: string | null;
+  // Original location of `image`
+  image_source?: string | null;
+  // UTC ISO 8601
   published_at: string;
+  // Date string exactly as the feed wrote it
+  published_at_raw?: string;
+  // Set when the date needed an assumption (no timezone, clock skew)
+  date_status?: DateStatus;
   source: string;
+  // Link from the feed, when the page declared a different canonical URL
+  feed_url?: string;
+  related_sources?: RelatedSource[];
+  author?: string | null;
+  // OpenGraph/meta description of the page, else the feed's description
+  description?: string | null;
+  // The feed's <category> tags
+  tags?: string[];
+  // Detected from the article body, else the source's configured language
+  language?: string;
+  word_count?: number;
+  reading_time_minutes?: number;
+  // Last run that changed this article; drives getNewsSince
+  modified_at?: string;
+  // Only in news_top.json
+  outlet_count?: number;
+  recent_coverage?: number;
+  trend_score?: number;
 }
 
+const TOP_STORIES_LIMIT = 50;
+
+// Bumped whenever published fields change meaning; only additions so far,
+// so clients that ignore unknown fields keep working
+const SCHEMA_VERSION = 2;
+
 interface CategoryJSON {
+  // Missing in files written before versioning (version 1)
+  schema_version?: number;
   category: string;
   updated_at: string;
+  // Category job that last merged into the file; lets a redelivered job
+  // see that its run is already published
+  run_id?: string;
   articles: Article[];
 }
 
-interface PipelineResult {
+export interface PipelineResult {
   category: string;
   success: boolean;
   total_articles: number;
@@ -131,36 +107,84 @@ interface PipelineResult {
   local_path: string;
   firebase_url: string;
   verified: boolean;
+  // Feeds and articles left for the next run by the time budget
+  deferred_sources?: number;
+  deferred_articles?: number;
+  duration_ms?: number;
+  // Wall time per pipeline step, keyed by the step's log message
+  step_durations_ms?: Record<string, number>;
+  source_failures?: SourceFailure[];
+  // Articles summarised this run, by summarizer
+  summary_providers?: Record<string, number>;
+  // Dry runs only: what publishing would have changed
+  changes?: FeedChanges;
   error?: string;
 }
 
-class Logger {
-  private category: string;
+export interface SourceFailure {
+  id: string;
+  category: string;
+  http_status: number | null;
+  error: string;
+}
 
-  constructor(category: string) {
-    this.category = category;
-  }
+export interface DeferredSource {
+  id: string;
+  category: string;
+  priority: number;
+}
 
-  step(stepNum: number, message: string) {
-    console.log(`[${this.category}] Step ${stepNum}: ${message}`);
-  }
+export interface DeferredArticle {
+  url: string;
+  source: string;
+  category: string;
+}
 
-  info(message: string) {
-    console.log(`[${this.category}] ${message}`);
-  }
+export interface PipelineOptions {
+  // Only these categories; all by default
+  categories?: string[];
+  // Only this source, fetched even when not due or quarantined
+  sourceId?: string;
+  // Fetch and summarise as usual, but write nothing to Storage
+  dryRun?: boolean;
+}
 
-  success(message: string) {
-    console.log(`[${this.category}] ${message}`);
-  }
+export interface PipelineRun {
+  run_id: string;
+  dry_run: boolean;
+  started_at: string;
+  duration_ms: number;
+  time_budget_ms: number;
+  budget_exhausted: boolean;
+  results: PipelineResult[];
+  deferred_sources: DeferredSource[];
+  deferred_articles: DeferredArticle[];
+}
 
-  error(message: string, error?: any) {
-    console.error(`[${this.category}] ${message}`);
-    if (error) {
-      console.error(`[${this.category}] ${error.message || error}`);
-    }
-  }
+// State shared by the category pipelines of one run
+interface RunContext {
+  runId: string;
+  dryRun: boolean;
+  // Retry of a failed job: fetch every feed, ignoring schedules and ETags
+  forceFetch: boolean;
+  // Carries run_id; category loggers are its children
+  logger: PipelineLogger;
+  scheduler: TaskScheduler;
+  sourceState: SourceState;
+  // Claimed in category order, so an article shared by two categories
+  // always lands in the first
+  globalSeenUrls: Set<string>;
+  deferredSources: DeferredSource[];
+  deferredArticles: DeferredArticle[];
+  sourceFailures: SourceFailure[];
 }
 
+const PIPELINE_CONCURRENCY = 8;
+// Politeness towards each outlet, feeds and pages alike
+const PER_HOST_CONCURRENCY = 2;
+// Of the 540s function timeout; the rest covers uploads and general/top
+const DEFAULT_TIME_BUDGET_SECONDS = 400;
+
 function decodeHTMLEntities(text: string): string {
   if (!text) return text;
   
@@ -188,99 +212,216 @@ function cleanTextForReadability(text: string): string {
     .trim();
 }
 
-async function fetchArticlesFromRSS(url: string, sourceName: string, logger: Logger): Promise<Article[]> {
+function feedText(value: any): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "string" || typeof value === "number") return String(value).trim();
+  // Attributes make the parser return {"#text": ...}; Atom uses term=""
+  return String(value["#text"] ?? value["@_term"] ?? value["@_label"] ?? value.name ?? "").trim();
+}
+
+function extractFeedTags(item: any): string[] {
+  const raw = [item.category, item["dc:subject"]]
+    .flatMap((value) => Array.isArray(value) ? value : [value]);
+
+  const tags = new Map<string, string>();
+  for (const value of raw) {
+    // Some feeds pack several tags in one element
+    for (const part of feedText(value).split(/\s*[,;|]\s*/)) {
+      const tag = decodeHTMLEntities(part).trim();
+      if (tag.length > 1 && tag.length <= 60 && !tags.has(tag.toLowerCase())) {
+        tags.set(tag.toLowerCase(), tag);
+      }
+    }
+  }
+  return Array.from(tags.values()).slice(0, 10);
+}
+
+function extractFeedAuthor(item: any): string | null {
+  const author = feedText(item["dc:creator"]) || feedText(item.author);
+  // RSS <author> is meant to be an e-mail address: "redazione@site.it (Nome)"
+  const cleaned = decodeHTMLEntities(author.replace(/^\S+@\S+\s*\((.*)\)$/, "$1")).trim();
+  if (!cleaned || cleaned.includes("@") || cleaned.length > 80) return null;
+  return cleaned;
+}
+
+function extractFeedDescription(item: any): string | null {
+  const description = cleanTextForReadability(decodeHTMLEntities(feedText(item.description) || feedText(item.summary)));
+  return description.length > 0 ? description.substring(0, 500) : null;
+}
+
+async function fetchArticlesFromRSS(
+  source: NewsSource,
+  logger: PipelineLogger,
+  httpCache?: FeedHttpCache
+): Promise<{articles: Article[]; outcome: SourceFetchOutcome; httpCache?: FeedHttpCache}> {
+  const {url, name: sourceName} = source;
+  const startTime = Date.now();
+  let httpStatus: number | null = null;
   try {
     logger.info(`Fetching from ${sourceName}...`);
 
+    const headers: Record<string, string> = {
+      "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+      "Accept": "application/rss+xml, application/xml, text/xml, */*",
+      "Accept-Language": "it-IT,it;q=0.9,en;q=0.8",
+    };
+
+    if (httpCache && httpCache.url === url) {
+      if (httpCache.etag) headers["If-None-Match"] = httpCache.etag;
+      if (httpCache.last_modified) headers["If-Modified-Since"] = httpCache.last_modified;
+    }
+
     const response = await axios.get(url, {
       timeout: 10000,
-      headers: {
-        "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-        "Accept": "application/rss+xml, application/xml, text/xml, */*",
-        "Accept-Language": "it-IT,it;q=0.9,en;q=0.8",
-      },
+      headers,
+      validateStatus: (status) => (status >= 200 && status < 300) || status === 304,
     });
 
+    if (response.status === 304) {
+      logger.info(`${sourceName} not modified since last run`);
+      return {
+        articles: [],
+        outcome: {ok: true, http_status: 304, latency_ms: Date.now() - startTime, item_count: 0, not_modified: true},
+        httpCache,
+      };
+    }
+
     const parser = new XMLParser({
       ignoreAttributes: false,
       attributeNamePrefix: "@_",
     });
 
-    const result = parser.parse(response.data);
+    httpStatus = response.status;
+    const latencyMs = Date.now() - startTime;
+
+    let result: any;
+    try {
+      result = parser.parse(response.data);
+    } catch (parseError) {
+      const parseMsg = parseError instanceof Error ? parseError.message : String(parseError);
+      logger.error(`Failed to parse feed from ${sourceName}: ${parseMsg}`);
+      return {
+        articles: [],
+        outcome: {ok: false, http_status: httpStatus, latency_ms: latencyMs, item_count: 0, parse_error: parseMsg},
+      };
+    }
+
+    if (!result?.rss?.channel && !result?.feed) {
+      logger.error(`Response from ${sourceName} is not an RSS or Atom feed`);
+      return {
+        articles: [],
+        outcome: {
+          ok: false,
+          http_status: httpStatus,
+          latency_ms: latencyMs,
+          item_count: 0,
+          parse_error: "Response is not an RSS or Atom feed",
+        },
+      };
+    }
+
     const items = result.rss?.channel?.item || result.feed?.entry || [];
     const itemsArray = Array.isArray(items) ? items : [items];
 
     const articles: Article[] = [];
+    let droppedDates = 0;
 
     for (const item of itemsArray) {
       const title = item.title || "";
       const articleUrl = item.link?.["@_href"] || item.link || item.guid || "";
-      const publishedAt = item.pubDate || item.published || item.updated || new Date().toISOString();
+      const publishedAt = normalizePublishedDate(item.pubDate || item.published || item.updated || item["dc:date"]);
 
-      let image = null;
-      
-      // Try multiple RSS image sources
-      if (item["media:content"]?.["@_url"]) {
-        image = item["media:content"]["@_url"];
-      } else if (item.enclosure?.["@_url"]) {
-        image = item.enclosure["@_url"];
-      } else if (item["media:thumbnail"]?.["@_url"]) {
-        image = item["media:thumbnail"]["@_url"];
-      } else if (item.image) {
-        // Some feeds have direct image field
-        image = typeof item.image === 'string' ? item.image : item.image?.url || item.image?.["@_url"];
-      } else if (item.thumbnail) {
-        image = typeof item.thumbnail === 'string' ? item.thumbnail : item.thumbnail?.url || item.thumbnail?.["@_url"];
-      } else if (item.description) {
-        // Try to extract from description HTML
-        const imgMatch = item.description.match(/<img[^>]+src=["']([^"'>]+)["']/);
-        if (imgMatch) {
-          image = imgMatch[1];
-        }
-      } else if (item["content:encoded"]) {
-        // Try to extract from content:encoded HTML
-        const imgMatch = item["content:encoded"].match(/<img[^>]+src=["']([^"'>]+)["']/);
-        if (imgMatch) {
-          image = imgMatch[1];
-        }
-      }
-      
-      // Clean up image URL (remove query params that might break loading)
-      if (image && typeof image === 'string') {
-        image = image.trim();
-        // Ensure it's a valid URL
-        if (!image.startsWith('http')) {
-          image = null;
-        }
+      // Undated or far-future items would otherwise sort as brand new
+      if (!publishedAt.iso) {
+        droppedDates++;
+        continue;
       }
 
-      if (title && articleUrl) {
+      // Best image the feed offers; the page's own images are tried after it
+      const image = feedImageCandidates(item, url)[0]?.url || null;
+
+      const canonicalUrl = typeof articleUrl === "string" ? canonicalizeUrl(articleUrl, url) : null;
+
+      if (title && canonicalUrl) {
         articles.push({
+          id: articleIdForUrl(canonicalUrl),
           title: cleanTextForReadability(decodeHTMLEntities(title.trim())),
-          url: articleUrl.trim(),
+          url: canonicalUrl,
           summary: "",
           image: image,
-          published_at: publishedAt,
-          source: sourceName
+          published_at: publishedAt.iso,
+          published_at_raw: publishedAt.original,
+          ...(publishedAt.status !== "ok" ? {date_status: publishedAt.status} : {}),
+          source: sourceName,
+          author: extractFeedAuthor(item),
+          description: extractFeedDescription(item),
+          tags: extractFeedTags(item),
         });
       }
     }
 
+    const etag = response.headers["etag"];
+    const lastModified = response.headers["last-modified"];
+    const newHttpCache: FeedHttpCache | undefined = etag || lastModified ? {
+      url,
+      etag: etag ? String(etag) : undefined,
+      last_modified: lastModified ? String(lastModified) : undefined,
+    } : undefined;
+
+    if (droppedDates > 0) {
+      logger.info(`Dropped ${droppedDates} items from ${sourceName} with missing, unparseable or future dates`);
+    }
+
     logger.info(`Fetched ${articles.length} articles from ${sourceName}`);
-    return articles;
+    return {
+      articles,
+      outcome: {
+        ok: true,
+        http_status: httpStatus,
+        latency_ms: latencyMs,
+        item_count: articles.length,
+        ...(droppedDates > 0 ? {invalid_dates: droppedDates} : {}),
+      },
+      httpCache: newHttpCache,
+    };
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : String(error);
-    logger.error(`Failed to fetch from ${sourceName}: ${errorMsg}`);
-    console.error(`RSS Fetch Error [${sourceName}]:`, {
-      url: url.substring(0, 100),
-      error: errorMsg,
-      timestamp: new Date().toISOString()
-    });
-    return [];
+    if (axios.isAxiosError(error) && error.response) {
+      httpStatus = error.response.status;
+    }
+    logger.error(`Failed to fetch from ${sourceName}`, error, {url, http_status: httpStatus});
+    return {
+      articles: [],
+      outcome: {ok: false, http_status: httpStatus, latency_ms: Date.now() - startTime, item_count: 0, error: errorMsg},
+    };
   }
 }
 
-async function extractArticleText(url: string, retries = 2): Promise<{text: string; image: string | null}> {
+interface ScrapedPage extends ExtractedContent {
+  imageCandidates: ImageCandidate[];
+  canonicalUrl: string | null;
+  description: string | null;
+}
+
+function emptyScrapedPage(): ScrapedPage {
+  return {
+    text: "",
+    author: null,
+    lead: null,
+    word_count: 0,
+    reading_time_minutes: 0,
+    method: "fallback",
+    imageCandidates: [],
+    canonicalUrl: null,
+    description: null,
+  };
+}
+
+async function extractArticleText(
+  url: string,
+  logger: PipelineLogger,
+  retries = 2
+): Promise<ScrapedPage> {
   for (let attempt = 0; attempt <= retries; attempt++) {
     try {
       const response = await axios.get(url, {
@@ -294,74 +435,29 @@ async function extractArticleText(url: string, retries = 2): Promise<{text: stri
 
       const $ = cheerio.load(response.data);
 
-      let image: string | null = null;
-      const imageSelectors = [
-        "meta[property='og:image']",
-        "meta[name='twitter:image']",
-        "meta[property='og:image:secure_url']",
-        "link[rel='image_src']",
-        "article img",
-        ".article-image img",
-        ".featured-image img",
-        ".wp-post-image",
-        ".entry-content img",
-        ".post-thumbnail img",
-        "img[class*='article']",
-        "img[class*='hero']",
-        "img[class*='featured']",
-        "img[class*='cover']",
-        "figure img",
-        ".main-image img",
-        "#main-image"
-      ];
-      
-      for (const selector of imageSelectors) {
-        const element = $(selector).first();
-        if (element.length > 0) {
-          image = element.attr("content") || element.attr("src") || element.attr("data-src") || element.attr("href") || null;
-          if (image) {
-            // Clean and validate image URL
-            image = image.trim();
-            if (image.startsWith('//')) {
-              image = 'https:' + image;
-            } else if (image.startsWith('/')) {
-              // Relative URL - skip for now
-              image = null;
-              continue;
-            }
-            if (image && image.startsWith('http')) {
-              break;
-            }
-          }
-        }
-      }
-
-      $("script, style, nav, header, footer, aside, .ad, .advertisement, .comments").remove();
-
+      // Resolve against the final URL in case the request was redirected
+      const pageUrl = response.request?.res?.responseUrl || url;
+      const canonicalUrl = resolveCanonicalLink(
+        $("link[rel='canonical']").attr("href") || $("meta[property='og:url']").attr("content"),
+        pageUrl
+      );
 
-      const selectors = ["article", ".article-content", ".article-body", ".post-content", ".entry-content", "main", ".content"];
+      const metaDescription = $("meta[property='og:description']").attr("content") ||
+        $("meta[name='description']").attr("content") ||
+        $("meta[name='twitter:description']").attr("content");
+      const description = metaDescription ? cleanTextForReadability(decodeHTMLEntities(metaDescription)) || null : null;
 
-      let content = "";
-      for (const selector of selectors) {
-        const element = $(selector);
-        if (element.length > 0) {
-          content = element.text();
-          break;
-        }
-      }
+      // Read before extraction strips headers and figures from the page
+      const imageCandidates = pageImageCandidates($, pageUrl);
 
-      if (!content || content.length < 100) {
-        content = $("p").text();
-      }
+      const content = extractContent($, pageUrl);
 
-      const cleanContent = content.replace(/\s+/g, " ").trim().substring(0, 3000);
-      
-      if (cleanContent.length > 50) {
-        return {text: cleanContent, image};
+      if (content.text.length > 50) {
+        return {...content, imageCandidates, canonicalUrl, description};
       }
       
-      console.warn(`Short content (${cleanContent.length} chars) from ${url.substring(0, 50)}...`);
-      return {text: cleanContent, image};
+      logger.warn(`Short content (${content.text.length} chars)`, {method: content.method});
+      return {...content, imageCandidates, canonicalUrl, description};
       
     } catch (error) {
       // Skip retries for 403/401 errors (access denied)
@@ -369,156 +465,143 @@ async function extractArticleText(url: string, retries = 2): Promise<{text: stri
         (error.message.includes('403') || error.message.includes('401') || error.message.includes('status code 403'));
       
       if (isAuthError) {
-        console.warn(`Access denied for ${url.substring(0, 50)}... - skipping`);
-        return {text: "", image: null};
+        logger.warn("Access denied, skipping page");
+        return emptyScrapedPage();
       }
       
       if (attempt < retries) {
-        console.warn(`Retry ${attempt + 1}/${retries} for ${url.substring(0, 50)}...`);
+        logger.debug(`Retry ${attempt + 1}/${retries}`, {error: error instanceof Error ? error.message : String(error)});
         await new Promise(resolve => setTimeout(resolve, 500)); // Reduced from 1000ms
       } else {
-        console.error(`Failed to extract from ${url.substring(0, 50)}...: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        return {text: "", image: null};
+        logger.error("Failed to extract article text", error);
+        return emptyScrapedPage();
       }
     }
   }
-  return {text: "", image: null};
+  return emptyScrapedPage();
 }
 
-async function generateSmartSummary(fullText: string): Promise<string> {
-  if (!fullText || fullText.length < 50) {
-    return "No summary available.";
-  }
-
-  const decodedText = decodeHTMLEntities(fullText);
-  
-  try {
-    const response = await axios.post('https://api-inference.huggingface.co/models/facebook/bart-large-cnn', {
-      inputs: decodedText.substring(0, 1024),
-      parameters: {
-        max_length: 60,
-        min_length: 30,
-        do_sample: false
-      }
-    }, {
-      headers: {
-        'Authorization': `Bearer ${process.env.HUGGINGFACE_API_KEY}`,
-        'Content-Type': 'application/json'
-      },
-      timeout: 10000
-    });
-
-    if (response.data && response.data[0] && response.data[0].summary_text) {
-      return cleanTextForReadability(response.data[0].summary_text);
-    }
-  } catch (error) {
-    // Silent fallback
-  }
+const NO_SUMMARY = "No summary available.";
 
+const SUMMARY_OPTIONS = {minWords: 30, maxWords: 40};
 
-  const sentences = decodedText
-    .split(/[.!?]+/)
-    .map((s) => s.trim())
-    .filter((s) => s.length > 20);
+let summarizerChain: Summarizer[] | null = null;
 
-  if (sentences.length === 0) {
-    return "No summary available.";
+function getSummarizerChain(logger: PipelineLogger): Summarizer[] {
+  if (!summarizerChain) {
+    summarizerChain = createSummarizerChain(process.env, logger);
+    logger.info(`Summarizer chain: ${summarizerChain.map((s) => s.name).join(" -> ")}`);
   }
+  return summarizerChain;
+}
 
-  const scored = sentences.map((sentence, index) => {
-    const words = sentence.split(/\s+/).filter((w) => w.length > 0);
-    
-    const positionScore = 1.0 - (index / sentences.length);
-    
-    let lengthScore = 0.5;
-    if (words.length >= 10 && words.length <= 30) {
-      lengthScore = 1.0;
-    } else if (words.length < 10) {
-      lengthScore = words.length / 10;
-    } else {
-      lengthScore = 30 / words.length;
-    }
-    
-    const importantWords = ["announced", "revealed", "confirmed", "new", "first", "major", "government", "team", "victory"];
-    const keywordScore = importantWords.filter((kw) => sentence.toLowerCase().includes(kw)).length * 0.1;
-    
-    const totalScore = (positionScore * 0.4) + (lengthScore * 0.4) + (keywordScore * 0.2);
-    
-    return {sentence, score: totalScore, words: words.length};
-  });
-
-  scored.sort((a, b) => b.score - a.score);
-
-
-  let summary = "";
-  let wordCount = 0;
-
-  for (const item of scored) {
-    if (wordCount + item.words <= 40) {
-      if (summary) summary += " ";
-      summary += item.sentence + ".";
-      wordCount += item.words;
-      
-      if (wordCount >= 30) break;
-    }
+async function generateSmartSummary(
+  fullText: string,
+  logger: PipelineLogger,
+  title?: string,
+  language?: string
+): Promise<SummaryResult> {
+  if (!fullText || fullText.length < 50) {
+    return {summary: NO_SUMMARY, provider: "none"};
   }
 
-  if (!summary) {
-    summary = scored[0].sentence + ".";
-    wordCount = scored[0].words;
-  }
+  const decodedText = decodeHTMLEntities(fullText);
+  const result = await summarizeWithChain(getSummarizerChain(logger), decodedText, {...SUMMARY_OPTIONS, title, language}, logger);
 
-  const finalWords = summary.split(/\s+/).filter(w => w.length > 0);
-  
-  if (finalWords.length < 30) {
-    for (const item of scored.slice(1)) {
-      if (wordCount + item.words <= 40) {
-        summary += " " + item.sentence + ".";
-        wordCount += item.words;
-        if (wordCount >= 30) break;
-      }
-    }
-  } else if (finalWords.length > 40) {
-    summary = finalWords.slice(0, 40).join(" ") + "...";
+  if (!result) {
+    return {summary: NO_SUMMARY, provider: "none"};
   }
 
-  return cleanTextForReadability(summary.trim());
+  return {summary: cleanTextForReadability(result.summary), provider: result.provider};
 }
 
-function getPublisherFavicon(url: string): string {
-  try {
-    const domain = new URL(url).hostname;
-    return `https://www.google.com/s2/favicons?domain=${domain}&sz=256`;
-  } catch {
-    return "";
-  }
+// Image requests run inside an article's task, under the per-host limit
+// but without taking another global slot
+function imageRequestLimiter(scheduler: TaskScheduler): RequestLimiter {
+  return async (url, request) => {
+    const outcome = await scheduler.schedule({
+      host: hostOf(url),
+      // Finish what is already running before starting anything new
+      priority: Number.MAX_SAFE_INTEGER,
+      nested: true,
+      run: request,
+    });
+    if (outcome.status === "skipped") throw new Error(`Image request skipped: ${url}`);
+    return outcome.value;
+  };
 }
 
-async function processArticleWithSummary(article: Article, logger: Logger): Promise<Article> {
-  const {text: fullText, image: pageImage} = await extractArticleText(article.url);
-  
-  const summary = await generateSmartSummary(fullText || article.title);
-  
-  let finalImage = article.image || pageImage || getPublisherFavicon(article.url);
-  
-  if (!finalImage || finalImage.trim() === "") {
-    finalImage = `https://via.placeholder.com/800x450/4A90E2/FFFFFF?text=News`;
+async function processArticleWithSummary(
+  article: Article,
+  logger: PipelineLogger,
+  context: RunContext,
+  language?: string
+): Promise<Article> {
+  const page = await extractArticleText(article.url, logger);
+  const {text: fullText, canonicalUrl} = page;
+
+  const detectedLanguage = detectLanguage(fullText || article.title) || language;
+  const {summary, provider} = await generateSmartSummary(fullText || article.title, logger, article.title, detectedLanguage);
+
+  const canonical: Partial<Article> = {};
+  if (canonicalUrl && urlIdentityKey(canonicalUrl) !== urlIdentityKey(article.url)) {
+    canonical.id = articleIdForUrl(canonicalUrl);
+    canonical.url = canonicalUrl;
+    canonical.feed_url = article.url;
   }
+
+  // Thumbnails are written to the bucket, so a dry run goes without
+  const image = context.dryRun ? null : await processArticleImage(
+    [...(article.image ? [{url: article.image}] : []), ...page.imageCandidates],
+    canonical.id || article.id,
+    logger,
+    imageRequestLimiter(context.scheduler)
+  );
   
   return {
     ...article,
+    ...canonical,
     summary: summary,
-    image: finalImage,
+    summary_provider: provider,
+    image: image?.thumbnail || null,
+    image_source: image?.source || null,
+    author: page.author || article.author || null,
+    description: page.description || article.description || null,
+    language: detectedLanguage,
+    // Unknown rather than zero when the page could not be read
+    ...(page.word_count > 0 ? {word_count: page.word_count, reading_time_minutes: page.reading_time_minutes} : {}),
   };
 }
 
+async function loadPublishedArticles(category: string, logger: PipelineLogger): Promise<Article[]> {
+  try {
+    const existingJSON = await readCategoryFeed<CategoryJSON>(category);
+    if (!existingJSON) {
+      logger.info(`No existing file, starting fresh`);
+      return [];
+    }
+
+    const articles = existingJSON.articles || [];
+    logger.info(`Found ${articles.length} existing articles`);
+    return articles;
+  } catch (err) {
+    logger.error(`Failed to load existing articles, starting fresh`, err);
+    return [];
+  }
+}
+
+function hasUsableSummary(article: Article): boolean {
+  return !!article.summary && article.summary !== NO_SUMMARY;
+}
+
 function deduplicateArticles(articles: Article[]): Article[] {
   const seen = new Set<string>();
   return articles.filter((article) => {
-    if (seen.has(article.url)) {
+    const key = urlIdentityKey(article.url);
+    if (seen.has(key)) {
       return false;
     }
-    seen.add(article.url);
+    seen.add(key);
     return true;
   });
 }
@@ -533,43 +616,41 @@ function generateCategoryJSON(category: string, articles: Article[]): CategoryJS
   });
 
   return {
+    schema_version: SCHEMA_VERSION,
     category: category,
     updated_at: new Date().toISOString(),
     articles: sorted,
   };
 }
 
-async function uploadToFirebase(category: string, data: CategoryJSON, logger: Logger): Promise<string> {
+async function uploadToFirebase(
+  category: string,
+  data: CategoryJSON,
+  existingArticles: Article[],
+  logger: PipelineLogger,
+  dryRun = false
+): Promise<{publicUrl: string; totalArticles: number; removedArticles: number; changes?: FeedChanges}> {
   try {
-    const bucket = admin.storage().bucket();
-    const fileName = `news/news_${category}.json`;
-    const file = bucket.file(fileName);
-
-
-    let existingArticles: Article[] = [];
-    try {
-      const [exists] = await file.exists();
-      if (exists) {
-        const [fileData] = await file.download();
-        const existingJSON: CategoryJSON = JSON.parse(fileData.toString());
-        existingArticles = existingJSON.articles || [];
-        logger.info(`Found ${existingArticles.length} existing articles`);
-      }
-    } catch (err) {
-      logger.info(`No existing file, starting fresh`);
-    }
-
     const allArticles = [...data.articles, ...existingArticles];
     
 
     const seenUrls = new Map<string, Article>();
     for (const article of allArticles) {
-      const existing = seenUrls.get(article.url);
+      const key = urlIdentityKey(article.url);
+      const existing = seenUrls.get(key);
       if (!existing || new Date(article.published_at) > new Date(existing.published_at)) {
-        seenUrls.set(article.url, article);
+        // Copies sharing a key share an id; this only backfills files
+        // published before articles had ids
+        seenUrls.set(key, {...article, id: article.id || articleIdForUrl(article.url)});
       }
     }
-    const mergedArticles = Array.from(seenUrls.values());
+    const {stories: mergedArticles, merged: clustered} = clusterStories(
+      Array.from(seenUrls.values()),
+      hasUsableSummary
+    );
+    if (clustered > 0) {
+      logger.info(`Folded ${clustered} near-duplicate articles into related sources`);
+    }
     
     // Filter articles to only include those from last 72 hours (3 days)
     const now = new Date().getTime();
@@ -597,52 +678,72 @@ async function uploadToFirebase(category: string, data: CategoryJSON, logger: Lo
       logger.info(`Exceeded ${MAX_ARTICLES} limit - removed ${removedOld} oldest articles`);
     }
     
-    logger.success(`Merged: ${data.articles.length} new + ${existingArticles.length} existing = ${finalArticles.length} total (removed ${removedOld} old)`);
+    logger.info(`Merged: ${data.articles.length} new + ${existingArticles.length} existing = ${finalArticles.length} total (removed ${removedOld} old)`);
+
+    const updatedAt = new Date().toISOString();
+    stampModifiedAt(existingArticles, finalArticles, updatedAt);
+
+    if (dryRun) {
+      const changes = diffArticles(existingArticles, finalArticles, updatedAt);
+      logger.info(`Dry run: would publish news/news_${category}.json`, {
+        added: changes.added_ids.length,
+        updated: changes.updated_ids.length,
+        removed: changes.removed_ids.length,
+      });
+      return {
+        publicUrl: "",
+        totalArticles: finalArticles.length,
+        removedArticles: mergedArticles.length - finalArticles.length,
+        changes,
+      };
+    }
 
+    // Logged before the file changes, so no delta client can miss a removal
+    await recordRemovals(category, existingArticles, finalArticles, updatedAt);
 
     const mergedData: CategoryJSON = {
+      schema_version: SCHEMA_VERSION,
       category: category,
-      updated_at: new Date().toISOString(),
+      updated_at: updatedAt,
+      run_id: data.run_id,
       articles: finalArticles,
     };
 
-    await file.save(JSON.stringify(mergedData, null, 2), {
-      contentType: "application/json",
-      metadata: {
-        cacheControl: "public, max-age=300",
-      },
-    });
-
-    await file.makePublic();
-
-    const publicUrl = `https://firebasestorage.googleapis.com/v0/b/${bucket.name}/o/${encodeURIComponent(fileName)}?alt=media`;
+    const publicUrl = await publishFeed(mergedData, logger);
     
-    logger.success(`Uploaded to Firebase: ${fileName} with ${finalArticles.length} total articles`);
-    return publicUrl;
+    logger.info(`Uploaded to Firebase: news/news_${category}.json with ${finalArticles.length} total articles`);
+    return {
+      publicUrl,
+      totalArticles: finalArticles.length,
+      removedArticles: mergedArticles.length - finalArticles.length,
+    };
   } catch (error) {
     logger.error(`Failed to upload to Firebase`, error);
     throw error;
   }
 }
 
-async function verifyUpload(category: string, expectedCount: number, logger: Logger): Promise<boolean> {
+async function verifyUpload(category: string, expectedCount: number, logger: PipelineLogger): Promise<boolean> {
   try {
     const bucket = admin.storage().bucket();
     const file = bucket.file(`news/news_${category}.json`);
 
     const [metadata] = await file.getMetadata();
     
-    logger.info(`Metadata - Size: ${metadata.size} bytes, Updated: ${metadata.updated}`);
+    logger.info(`Metadata - Size: ${metadata.size} bytes (${metadata.contentEncoding || "identity"}), Updated: ${metadata.updated}`);
 
-    const [data] = await file.download();
-    const parsed: CategoryJSON = JSON.parse(data.toString());
+    const parsed = await readCategoryFeed<CategoryJSON>(category);
+    if (!parsed) {
+      logger.error(`Verification failed: news/news_${category}.json is missing`);
+      return false;
+    }
 
     if (parsed.articles.length !== expectedCount) {
       logger.error(`Verification failed: Expected ${expectedCount}, got ${parsed.articles.length}`);
       return false;
     }
 
-    logger.success(`Verification passed: ${parsed.articles.length} articles`);
+    logger.info(`Verification passed: ${parsed.articles.length} articles`);
     return true;
   } catch (error) {
     logger.error(`Verification failed`, error);
@@ -650,110 +751,232 @@ async function verifyUpload(category: string, expectedCount: number, logger: Log
   }
 }
 
+function countSummaryProviders(articles: Article[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const article of articles) {
+    const provider = article.summary_provider || "none";
+    counts[provider] = (counts[provider] || 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Fetches a category's feeds through the scheduler. Feeds not started
+ * before the deadline are deferred: their state is left untouched, so they
+ * are still due next run.
+ */
+async function fetchCategoryArticles(
+  category: string,
+  sources: NewsSource[],
+  context: RunContext,
+  logger: PipelineLogger
+): Promise<Article[]> {
+  logger.step(1, "Fetching articles from RSS");
+
+  const outcomes = await Promise.all(sources.map((source) => {
+    const stateEntry = getSourceStateEntry(context.sourceState, source.id);
+    return context.scheduler.schedule({
+      host: hostOf(source.url),
+      priority: source.priority,
+      run: () => fetchArticlesFromRSS(
+        source,
+        logger.child({source: source.id}),
+        context.forceFetch ? undefined : stateEntry.http_cache
+      ),
+    });
+  }));
+
+  const allArticles: Article[] = [];
+  outcomes.forEach((fetched, index) => {
+    const source = sources[index];
+    if (fetched.status === "skipped") {
+      context.deferredSources.push({id: source.id, category, priority: source.priority});
+      return;
+    }
+
+    const {articles, outcome, httpCache} = fetched.value;
+    allArticles.push(...articles);
+
+    if (!outcome.ok) {
+      context.sourceFailures.push({
+        id: source.id,
+        category,
+        http_status: outcome.http_status,
+        error: outcome.error || outcome.parse_error || "Unknown error",
+      });
+    }
+
+    const stateEntry = getSourceStateEntry(context.sourceState, source.id);
+    recordFetchOutcome(stateEntry, outcome);
+    if (outcome.ok) {
+      stateEntry.http_cache = httpCache;
+    }
+  });
+
+  const deferred = outcomes.filter((fetched) => fetched.status === "skipped").length;
+  logger.info(`Fetched ${allArticles.length} total articles${deferred > 0 ? ` (${deferred} feeds deferred)` : ""}`);
+  return allArticles;
+}
+
 async function processCategoryPipeline(
   category: string,
-  sources: Array<{url: string; name: string}>,
-  globalSeenUrls?: Set<string>
+  sources: NewsSource[],
+  allArticles: Article[],
+  context: RunContext,
+  logger: PipelineLogger
 ): Promise<PipelineResult> {
-  const logger = new Logger(category);
+  const {globalSeenUrls} = context;
+  // Filled in on success and failure alike
+  const report = (): Partial<PipelineResult> => {
+    logger.endStep();
+    return {
+      duration_ms: Date.now() - logger.startedAt,
+      step_durations_ms: logger.stepDurations,
+      source_failures: context.sourceFailures.filter((failure) => failure.category === category),
+    };
+  };
 
-  console.log("\n" + "=".repeat(60));
-  console.log(`Processing category: ${category.toUpperCase()}`);
-  console.log("=".repeat(60));
+  logger.info(`Processing category: ${category}`, {fetched_articles: allArticles.length});
 
   try {
-    logger.step(1, "Fetching articles from RSS");
-    const allArticles: Article[] = [];
-    for (const source of sources) {
-      const articles = await fetchArticlesFromRSS(source.url, source.name, logger);
-      allArticles.push(...articles);
-    }
-    logger.success(`Fetched ${allArticles.length} total articles`);
-
     logger.step(2, "Deduplicating by URL");
     let unique = deduplicateArticles(allArticles);
     const duplicatesRemoved = allArticles.length - unique.length;
     
-    if (globalSeenUrls) {
-      const beforeGlobal = unique.length;
-      unique = unique.filter(article => {
-        if (globalSeenUrls.has(article.url)) {
-          return false;
-        }
-        globalSeenUrls.add(article.url);
-        return true;
-      });
-      const globalDuplicates = beforeGlobal - unique.length;
-      if (globalDuplicates > 0) {
-        logger.info(`Removed ${globalDuplicates} cross-category duplicates`);
+    const beforeGlobal = unique.length;
+    unique = unique.filter(article => {
+      const key = urlIdentityKey(article.url);
+      if (globalSeenUrls.has(key)) {
+        return false;
       }
+      globalSeenUrls.add(key);
+      return true;
+    });
+    const globalDuplicates = beforeGlobal - unique.length;
+    if (globalDuplicates > 0) {
+      logger.info(`Removed ${globalDuplicates} cross-category duplicates`);
     }
     
-    logger.success(`Removed ${duplicatesRemoved} duplicates`);
+    logger.info(`Removed ${duplicatesRemoved} duplicates`);
+
+    logger.step(3, "Checking against published articles");
+    const existingArticles = await loadPublishedArticles(category, logger);
+    const publishedByUrl = new Map<string, Article>();
+    for (const article of existingArticles) {
+      publishedByUrl.set(urlIdentityKey(article.url), article);
+      if (article.feed_url) {
+        publishedByUrl.set(urlIdentityKey(article.feed_url), article);
+      }
+      // Outlets folded into a story are published too, as related sources
+      for (const related of article.related_sources || []) {
+        publishedByUrl.set(urlIdentityKey(related.url), article);
+      }
+    }
 
-    logger.step(3, "Keeping all articles (no time filter)");
-    const recent = unique;
-    const oldRemoved = 0;
-    logger.success(`Keeping all ${recent.length} articles`);
+    // Already published articles are neither scraped nor summarised again;
+    // the merge in step 6 keeps their published copy. Only those that never
+    // got a usable summary are retried.
+    const toSummarise: Article[] = [];
+    let newCount = 0;
+    let skipped = 0;
+    for (const article of unique) {
+      const published = publishedByUrl.get(urlIdentityKey(article.url));
+      if (!published) {
+        newCount++;
+        toSummarise.push(article);
+      } else if (!hasUsableSummary(published)) {
+        toSummarise.push(article);
+      } else {
+        skipped++;
+      }
+    }
+    logger.info(`${newCount} new, ${toSummarise.length - newCount} to retry, ${skipped} already published`);
 
     logger.step(4, "Extracting text and generating summaries");
-    
-    const BATCH_SIZE = 10;
+
     const articlesWithSummaries: Article[] = [];
+    const sourceByName = new Map(sources.map((source) => [source.name, source]));
+    let processed = 0;
+    let deferredArticles = 0;
+
+    await Promise.all(toSummarise.map(async (article) => {
+      const source = sourceByName.get(article.source);
+      const outcome = await context.scheduler.schedule({
+        host: hostOf(article.url),
+        priority: source?.priority ?? 0,
+        run: () => processArticleWithSummary(
+          article,
+          logger.child({source: source?.id || article.source, article_url: article.url}),
+          context,
+          source?.language
+        ),
+      });
+
+      if (outcome.status === "skipped") {
+        deferredArticles++;
+        context.deferredArticles.push({url: article.url, source: article.source, category});
+        // Without validators the feed is read in full next run, so the
+        // article comes back even if the feed has not changed
+        if (source) {
+          getSourceStateEntry(context.sourceState, source.id).http_cache = undefined;
+        }
+        return;
+      }
+
+      articlesWithSummaries.push(outcome.value);
+      processed++;
+      if (processed % 10 === 0) {
+        logger.info(`Processed ${processed}/${toSummarise.length} articles`);
+      }
+    }));
     
-    for (let i = 0; i < recent.length; i += BATCH_SIZE) {
-      const batch = recent.slice(i, i + BATCH_SIZE);
-      const batchResults = await Promise.all(
-        batch.map(article => processArticleWithSummary(article, logger))
-      );
-      articlesWithSummaries.push(...batchResults);
-      
-      logger.info(`Processed ${Math.min(i + BATCH_SIZE, recent.length)}/${recent.length} articles`);
-    }
-    
-    logger.success(`Generated ${articlesWithSummaries.length} summaries`);
+    logger.info(`Generated ${articlesWithSummaries.length} summaries${deferredArticles > 0 ? ` (${deferredArticles} deferred)` : ""}`);
 
     allArticles.length = 0;
     unique.length = 0;
-    recent.length = 0;
+    toSummarise.length = 0;
 
 
     logger.step(5, "Generating category JSON");
     const categoryJSON = generateCategoryJSON(category, articlesWithSummaries);
-    logger.success(`Generated JSON with ${categoryJSON.articles.length} articles`);
+    categoryJSON.run_id = context.runId;
+    logger.info(`Generated JSON with ${categoryJSON.articles.length} articles`);
 
     logger.step(6, "Uploading to Firebase Storage");
-    const firebaseUrl = await uploadToFirebase(category, categoryJSON, logger);
+    const upload = await uploadToFirebase(category, categoryJSON, existingArticles, logger, context.dryRun);
+    const firebaseUrl = upload.publicUrl;
 
-    logger.step(7, "Verifying upload with getMetadata()");
-    const verified = await verifyUpload(category, categoryJSON.articles.length, logger);
+    let verified = false;
+    if (!context.dryRun) {
+      logger.step(7, "Verifying upload with getMetadata()");
+      verified = await verifyUpload(category, upload.totalArticles, logger);
+    }
 
-    console.log("\n" + "-".repeat(60));
-    console.log(`Success: ${category.toUpperCase()}`);
-    console.log(`   Total articles: ${categoryJSON.articles.length}`);
-    console.log(`   New articles: ${allArticles.length}`);
-    console.log(`   Removed: ${oldRemoved}`);
-    console.log(`   Firebase: ${firebaseUrl}`);
-    console.log(`   Verified: ${verified ? "YES" : "NO"}`);
-    console.log("-".repeat(60));
+    logger.info(`Success: ${category}`, {
+      total_articles: upload.totalArticles,
+      new_articles: newCount,
+      removed_articles: upload.removedArticles,
+      firebase_url: firebaseUrl,
+      verified,
+    });
 
     return {
       category: category,
       success: true,
-      total_articles: categoryJSON.articles.length,
-      new_articles: allArticles.length,
-      removed_articles: oldRemoved,
+      total_articles: upload.totalArticles,
+      new_articles: newCount,
+      removed_articles: upload.removedArticles,
       local_path: "",
       firebase_url: firebaseUrl,
       verified: verified,
+      deferred_sources: context.deferredSources.filter((deferred) => deferred.category === category).length,
+      deferred_articles: deferredArticles,
+      summary_providers: countSummaryProviders(articlesWithSummaries),
+      ...(upload.changes ? {changes: upload.changes} : {}),
+      ...report(),
     };
   } catch (error) {
-    logger.error("Pipeline failed", error);
-
-    console.log("\n" + "-".repeat(60));
-    console.log(`Failed: ${category.toUpperCase()}`);
-    console.log(`   Error: ${error instanceof Error ? error.message : String(error)}`);
-    console.log("-".repeat(60));
+    logger.error(`Failed: ${category}`, error);
 
     return {
       category: category,
@@ -765,50 +988,85 @@ async function processCategoryPipeline(
       firebase_url: "",
       verified: false,
       error: error instanceof Error ? error.message : String(error),
+      ...report(),
     };
   }
 }
 
-export async function runUnifiedPipeline(): Promise<PipelineResult[]> {
-  console.log("\n" + "=".repeat(60));
-  console.log("Unified news pipeline started");
-  console.log(`Time: ${new Date().toISOString()}`);
-  console.log(`Processing ${Object.keys(RSS_SOURCES).length} categories`);
-  console.log("=".repeat(60));
-
-  const startTime = Date.now();
+function createRunContext(
+  startTime: number,
+  timeBudgetMs: number,
+  sourceState: SourceState,
+  runId: string,
+  options: {dryRun?: boolean; forceFetch?: boolean} = {}
+): RunContext {
+  return {
+    runId,
+    dryRun: options.dryRun === true,
+    forceFetch: options.forceFetch === true,
+    logger: new PipelineLogger({run_id: runId}),
+    scheduler: new TaskScheduler({
+      concurrency: PIPELINE_CONCURRENCY,
+      perHostConcurrency: PER_HOST_CONCURRENCY,
+      deadline: startTime + timeBudgetMs,
+    }),
+    sourceState,
+    globalSeenUrls: new Set<string>(),
+    deferredSources: [],
+    deferredArticles: [],
+    sourceFailures: [],
+  };
+}
 
-  const globalSeenUrls = new Set<string>();
+function selectDueSources(
+  category: string,
+  sources: NewsSource[],
+  sourceState: SourceState,
+  logger: PipelineLogger,
+  ignoreSchedule = false
+): NewsSource[] {
+  const quarantined = sources.filter((source) => isQuarantined(sourceState.sources[source.id]));
+  if (quarantined.length > 0) {
+    logger.info(`Skipping ${quarantined.length} quarantined ${category} sources`, {
+      category,
+      quarantined_sources: quarantined.map((s) => s.id),
+    });
+  }
 
+  return sources.filter((source) =>
+    !isQuarantined(sourceState.sources[source.id]) &&
+    (ignoreSchedule || isSourceDue(source, sourceState.sources[source.id]?.last_fetched_at))
+  );
+}
 
+/**
+ * Rebuilds news_general.json, the search index and news_top.json from the
+ * published category files.
+ */
+export async function buildAggregateFeeds(logger: PipelineLogger): Promise<PipelineResult[]> {
   const results: PipelineResult[] = [];
-  for (const [category, sources] of Object.entries(RSS_SOURCES)) {
-    const result = await processCategoryPipeline(category, sources, globalSeenUrls);
-    results.push(result);
-  }
+  const generalLogger = logger.child({category: GENERAL_CATEGORY});
 
-  console.log("\n" + "=".repeat(60));
-  console.log("Creating 'general' category (all articles combined)");
-  console.log("=".repeat(60));
+  generalLogger.info("Creating 'general' category (all articles combined)");
   
   try {
-    const generalLogger = new Logger("general");
     const bucket = admin.storage().bucket();
     
     const allCategoryArticles: Article[] = [];
+    const searchEntries: Array<{category: string; article: Article}> = [];
+    let allCategoriesLoaded = true;
     
-    for (const [category, _] of Object.entries(RSS_SOURCES)) {
+    for (const category of NEWS_CATEGORIES) {
       try {
-        const file = bucket.file(`news/news_${category}.json`);
-        const [exists] = await file.exists();
+        const categoryJSON = await readCategoryFeed<CategoryJSON>(category);
         
-        if (exists) {
-          const [data] = await file.download();
-          const categoryJSON: CategoryJSON = JSON.parse(data.toString());
+        if (categoryJSON) {
           allCategoryArticles.push(...categoryJSON.articles);
+          searchEntries.push(...categoryJSON.articles.map((article) => ({category, article})));
           generalLogger.info(`Added ${categoryJSON.articles.length} articles from ${category}`);
         }
       } catch (err) {
+        allCategoriesLoaded = false;
         generalLogger.error(`Failed to load ${category}`, err);
       }
     }
@@ -817,12 +1075,20 @@ export async function runUnifiedPipeline(): Promise<PipelineResult[]> {
     
     const seenUrls = new Map<string, Article>();
     for (const article of allCategoryArticles) {
-      const existing = seenUrls.get(article.url);
+      const key = urlIdentityKey(article.url);
+      const existing = seenUrls.get(key);
       if (!existing || new Date(article.published_at) > new Date(existing.published_at)) {
-        seenUrls.set(article.url, article);
+        // Copied: the parsed category files are cached and must stay as published
+        seenUrls.set(key, {...article});
       }
     }
-    const uniqueArticles = Array.from(seenUrls.values());
+    const {stories: uniqueArticles, merged: clustered} = clusterStories(
+      Array.from(seenUrls.values()),
+      hasUsableSummary
+    );
+    if (clustered > 0) {
+      generalLogger.info(`Folded ${clustered} cross-category near-duplicates into related sources`);
+    }
     
     // Filter articles to only include those from last 72 hours (3 days)
     const now = new Date().getTime();
@@ -840,27 +1106,51 @@ export async function runUnifiedPipeline(): Promise<PipelineResult[]> {
       new Date(b.published_at).getTime() - new Date(a.published_at).getTime()
     );
     
-    generalLogger.success(`Filtered to ${recentArticles.length} articles from last 72 hours (from ${uniqueArticles.length} total)`);
+    generalLogger.info(`Filtered to ${recentArticles.length} articles from last 72 hours (from ${uniqueArticles.length} total)`);
     
     const generalJSON: CategoryJSON = {
+      schema_version: SCHEMA_VERSION,
       category: "general",
       updated_at: new Date().toISOString(),
       articles: recentArticles.slice(0, 800),
     };
+
+    const previousGeneral = await loadPublishedArticles("general", generalLogger);
+    stampModifiedAt(previousGeneral, generalJSON.articles, generalJSON.updated_at);
+    await recordRemovals("general", previousGeneral, generalJSON.articles, generalJSON.updated_at);
     
-    const generalFile = bucket.file("news/news_general.json");
-    await generalFile.save(JSON.stringify(generalJSON, null, 2), {
-      contentType: "application/json",
-      metadata: {
-        cacheControl: "public, max-age=300",
-      },
-    });
-    
-    await generalFile.makePublic();
-    
-    const generalUrl = `https://firebasestorage.googleapis.com/v0/b/${bucket.name}/o/news%2Fnews_general.json?alt=media`;
+    const generalUrl = await publishFeed(generalJSON, generalLogger);
     
-    generalLogger.success(`Uploaded general category with ${generalJSON.articles.length} articles`);
+    generalLogger.info(`Uploaded general category with ${generalJSON.articles.length} articles`);
+
+    // Search works without a fresh index (the endpoint falls back to the
+    // category files), so failing here does not fail the run
+    try {
+      const searchIndex = buildSearchIndex(searchEntries);
+      await bucket.file(SEARCH_INDEX_PATH).save(JSON.stringify(searchIndex), {
+        contentType: "application/json",
+        metadata: {
+          cacheControl: "private, max-age=0",
+        },
+      });
+      generalLogger.info(`Indexed ${searchIndex.documents.length} articles for search`);
+    } catch (err) {
+      generalLogger.error("Failed to write search index", err);
+    }
+
+    // Category files hold every article of the last 72 hours, general and
+    // top only a subset, so their images are all the thumbnails still in
+    // use. A category that failed to load would look unreferenced.
+    if (allCategoriesLoaded) {
+      try {
+        const referenced = new Set(allCategoryArticles.map((article) => article.image).filter((url) => url));
+        await pruneThumbnails(referenced, generalLogger);
+      } catch (err) {
+        generalLogger.error("Failed to prune thumbnails", err);
+      }
+    } else {
+      generalLogger.warn("Not pruning thumbnails: some category files failed to load");
+    }
     
     results.push({
       category: "general",
@@ -873,9 +1163,49 @@ export async function runUnifiedPipeline(): Promise<PipelineResult[]> {
       verified: true,
     });
     
-    console.log("General category created successfully");
+    generalLogger.info("General category created successfully");
+
+    try {
+      const topJSON: CategoryJSON = {
+        schema_version: SCHEMA_VERSION,
+        category: "top",
+        updated_at: new Date().toISOString(),
+        articles: rankTopStories(recentArticles, TOP_STORIES_LIMIT),
+      };
+
+      const previousTop = await loadPublishedArticles("top", generalLogger);
+      stampModifiedAt(previousTop, topJSON.articles, topJSON.updated_at);
+      await recordRemovals("top", previousTop, topJSON.articles, topJSON.updated_at);
+
+      const topUrl = await publishFeed(topJSON, generalLogger);
+
+      generalLogger.info(`Uploaded top stories with ${topJSON.articles.length} multi-outlet stories`);
+      results.push({
+        category: "top",
+        success: true,
+        total_articles: topJSON.articles.length,
+        new_articles: 0,
+        removed_articles: 0,
+        local_path: "",
+        firebase_url: topUrl,
+        verified: true,
+      });
+    } catch (error) {
+      generalLogger.error("Failed to create top stories", error, {category: TOP_CATEGORY});
+      results.push({
+        category: "top",
+        success: false,
+        total_articles: 0,
+        new_articles: 0,
+        removed_articles: 0,
+        local_path: "",
+        firebase_url: "",
+        verified: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
   } catch (error) {
-    console.error("Failed to create general category:", error);
+    generalLogger.error("Failed to create general category", error);
     results.push({
       category: "general",
       success: false,
@@ -889,29 +1219,179 @@ export async function runUnifiedPipeline(): Promise<PipelineResult[]> {
     });
   }
 
-  const successful = results.filter((r) => r.success).length;
-  const failed = results.filter((r) => !r.success).length;
-  const totalArticles = results.reduce((sum, r) => sum + r.total_articles, 0);
-  const duration = ((Date.now() - startTime) / 1000).toFixed(2);
-
-  console.log("\n" + "=".repeat(60));
-  console.log("Unified pipeline complete");
-  console.log(`Duration: ${duration}s`);
-  console.log(`Successful: ${successful}/${results.length}`);
-  console.log(`Failed: ${failed}`);
-  console.log(`Total articles: ${totalArticles}`);
-  console.log("=".repeat(60));
-
-  console.log("\nUploaded files:");
-  results.forEach((r) => {
-    if (r.success) {
-      console.log(`   ${r.category}.json (${r.total_articles} articles)`);
-      console.log(`      Firebase: ${r.firebase_url}`);
-      console.log(`      Verified: ${r.verified ? "YES" : "NO"}`);
-    } else {
-      console.log(`   ${r.category}.json - FAILED: ${r.error}`);
+  return results;
+}
+
+/**
+ * Runs a single category as one fan-out job, with its own scheduler and
+ * time budget. Cross-category duplicates are left to the aggregation step,
+ * and only this category's source state is written back, once it has
+ * published. A `retry` fetches every feed afresh, so it has articles to
+ * publish even when an earlier attempt got as far as fetching them.
+ */
+export async function runCategoryPipeline(
+  category: string,
+  runId: string,
+  options: {retry?: boolean} = {}
+): Promise<PipelineRun> {
+  const startTime = Date.now();
+  const timeBudgetMs = envNumber("PIPELINE_TIME_BUDGET_SECONDS", DEFAULT_TIME_BUDGET_SECONDS) * 1000;
+
+  const {registry} = await loadSourceRegistry();
+  const sources = groupSourcesByCategory(registry)[category] || [];
+  const sourceState = await loadSourceState();
+  const context = createRunContext(startTime, timeBudgetMs, sourceState, runId, {forceFetch: options.retry});
+  const logger = context.logger.child({category});
+
+  const results: PipelineResult[] = [];
+  const dueSources = selectDueSources(category, sources, sourceState, logger, options.retry);
+  if (dueSources.length === 0) {
+    logger.info(`Skipping ${category}: no enabled sources due for fetching`);
+  } else {
+    const fetched = await fetchCategoryArticles(category, dueSources, context, logger);
+    const result = await processCategoryPipeline(category, dueSources, fetched, context, logger);
+    results.push(result);
+
+    // Saving after a failure would leave the retry with nothing due and
+    // 304s for everything fetched here
+    if (result.success) {
+      try {
+        await saveSourceStateEntries(sourceState, dueSources.map((source) => source.id));
+      } catch (error) {
+        logger.error(`Failed to save ${category} source state`, error);
+      }
     }
+  }
+
+  return {
+    run_id: runId,
+    dry_run: false,
+    started_at: new Date(startTime).toISOString(),
+    duration_ms: Date.now() - startTime,
+    time_budget_ms: timeBudgetMs,
+    budget_exhausted: context.scheduler.skippedCount > 0,
+    results,
+    deferred_sources: context.deferredSources,
+    deferred_articles: context.deferredArticles,
+  };
+}
+
+/**
+ * Fetches, summarises and publishes every category, then builds the
+ * general and top files. Feeds and articles run concurrently under one
+ * scheduler; whatever has not started when the time budget runs out is
+ * deferred to the next run, highest priority sources going first.
+ *
+ * `options` narrow the run to some categories or one source. A dry run
+ * writes nothing (no feeds, thumbnails, source state or run record) and
+ * skips general/top, whose inputs would be the unchanged published files;
+ * each category result carries the changes it would have published.
+ */
+export async function runUnifiedPipeline(options: PipelineOptions = {}): Promise<PipelineRun> {
+  const dryRun = options.dryRun === true;
+  const startTime = Date.now();
+  const timeBudgetMs = envNumber("PIPELINE_TIME_BUDGET_SECONDS", DEFAULT_TIME_BUDGET_SECONDS) * 1000;
+
+  const {registry} = await loadSourceRegistry({seed: !dryRun});
+  const sourcesByCategory = groupSourcesByCategory(registry);
+  const sourceState = await loadSourceState();
+  const runId = runIdFor(new Date(startTime));
+  const context = createRunContext(startTime, timeBudgetMs, sourceState, runId, {dryRun});
+  const {logger} = context;
+  logger.info("Unified news pipeline started", {
+    categories: options.categories || NEWS_CATEGORIES,
+    ...(options.sourceId ? {source: options.sourceId} : {}),
+    dry_run: dryRun,
   });
 
-  return results;
+  const dueByCategory: Array<{category: string; sources: NewsSource[]}> = [];
+  for (const [category, sources] of Object.entries(sourcesByCategory)) {
+    if (options.categories && !options.categories.includes(category)) continue;
+
+    // A source asked for by name runs regardless of schedule and quarantine
+    const dueSources = options.sourceId ?
+      sources.filter((source) => source.id === options.sourceId) :
+      selectDueSources(category, sources, sourceState, logger);
+    if (dueSources.length === 0) {
+      logger.info(`Skipping ${category}: no enabled sources due for fetching`, {category});
+      continue;
+    }
+
+    dueByCategory.push({category, sources: dueSources});
+  }
+
+  const loggers = dueByCategory.map(({category}) => logger.child({category}));
+  const fetched = await Promise.all(dueByCategory.map(({category, sources}, index) =>
+    fetchCategoryArticles(category, sources, context, loggers[index])
+  ));
+  // Started together: each claims its URLs in globalSeenUrls before its
+  // first await, so in category order
+  const results: PipelineResult[] = await Promise.all(dueByCategory.map(({category, sources}, index) =>
+    processCategoryPipeline(category, sources, fetched[index], context, loggers[index])
+  ));
+
+  if (!dryRun) {
+    try {
+      // Only the sources fetched here, since category jobs may be saving
+      // theirs, and only for categories that published: the others must
+      // stay due, with their old ETags, for the next run
+      const fetchedIds = dueByCategory
+        .filter((_, index) => results[index].success)
+        .flatMap(({sources}) => sources.map((source) => source.id));
+      await saveSourceStateEntries(sourceState, fetchedIds);
+    } catch (error) {
+      logger.error("Failed to save source state", error);
+    }
+  }
+
+  let aggregationDurationMs: number | undefined;
+  if (dryRun) {
+    logger.info("Dry run: skipping general and top stories");
+  } else {
+    const aggregationStart = Date.now();
+    results.push(...await buildAggregateFeeds(logger));
+    aggregationDurationMs = Date.now() - aggregationStart;
+  }
+
+  const run: PipelineRun = {
+    run_id: runId,
+    dry_run: dryRun,
+    started_at: new Date(startTime).toISOString(),
+    duration_ms: Date.now() - startTime,
+    time_budget_ms: timeBudgetMs,
+    budget_exhausted: context.scheduler.skippedCount > 0,
+    results,
+    deferred_sources: context.deferredSources,
+    deferred_articles: context.deferredArticles,
+  };
+
+  logger.info("Unified pipeline complete", {
+    duration_ms: run.duration_ms,
+    successful: results.filter((r) => r.success).length,
+    failed: results.filter((r) => !r.success).length,
+    total_articles: results.reduce((sum, r) => sum + r.total_articles, 0),
+    results: results.map((r) => ({
+      category: r.category,
+      success: r.success,
+      total_articles: r.total_articles,
+      verified: r.verified,
+      ...(r.error ? {error: r.error} : {}),
+    })),
+  });
+
+  if (run.budget_exhausted) {
+    logger.warn(`Time budget of ${timeBudgetMs / 1000}s ran out, deferred to the next run`, {
+      deferred_sources: run.deferred_sources.map((d) => d.id),
+      deferred_articles: run.deferred_articles.length,
+    });
+  }
+
+  if (!dryRun) {
+    await saveRunRecord(buildRunRecord(runId, "single", new Date(startTime), results, {
+      aggregationDurationMs,
+      budgetExhausted: run.budget_exhausted,
+    }), logger);
+  }
+
+  return run;
 }
@@ -0,0 +1,105 @@
+import * as crypto from "crypto";
+
+// Query parameters that only identify the referrer or campaign, never the article
+const TRACKING_PARAM_PATTERNS = [
+  /^utm_/i,
+  /^(fbclid|gclid|dclid|msclkid|yclid|igshid)$/i,
+  /^mc_(cid|eid)$/i,
+  /^_ga$/i,
+  /^(ref|ref_src|referrer)$/i,
+  /^rss$/i,
+  /^(xtor|cmpid|ito|wt_mc|wt\.mc_id|ns_source|ns_mchannel|ns_campaign)$/i,
+  /^refresh_ce$/i,
+  /^(amp|outputtype)$/i,
+];
+
+const DEFAULT_PORTS: Record<string, string> = {
+  "http:": "80",
+  "https:": "443",
+};
+
+function isTrackingParam(name: string): boolean {
+  return TRACKING_PARAM_PATTERNS.some((pattern) => pattern.test(name));
+}
+
+/**
+ * Cleans a URL while keeping it fetchable: resolves it against `base`,
+ * lower-cases the host, drops default ports, fragments and tracking
+ * parameters, and sorts what is left of the query string. Returns null for
+ * anything that is not an http(s) URL.
+ */
+export function canonicalizeUrl(raw: string, base?: string): string | null {
+  if (!raw || typeof raw !== "string") return null;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(raw.trim(), base);
+  } catch {
+    return null;
+  }
+
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    return null;
+  }
+
+  parsed.hostname = parsed.hostname.toLowerCase();
+  if (parsed.port === DEFAULT_PORTS[parsed.protocol]) {
+    parsed.port = "";
+  }
+  parsed.hash = "";
+
+  const kept = Array.from(parsed.searchParams.entries())
+    .filter(([name]) => !isTrackingParam(name))
+    .sort(([a], [b]) => a.localeCompare(b));
+  parsed.search = "";
+  for (const [name, value] of kept) {
+    parsed.searchParams.append(name, value);
+  }
+
+  return parsed.toString();
+}
+
+/**
+ * Identity of an article URL for deduplication. Two URLs with the same key
+ * point at the same article: scheme, `www.`/`m.`/`amp.` host prefixes, AMP
+ * path variants and trailing slashes are ignored on top of canonicalizeUrl.
+ * Not meant to be fetched.
+ */
+export function urlIdentityKey(url: string): string {
+  const canonical = canonicalizeUrl(url);
+  if (!canonical) return (url || "").trim();
+
+  const parsed = new URL(canonical);
+  const host = parsed.hostname.replace(/^(www|m|amp)\./, "");
+  const path = parsed.pathname
+    .replace(/\/amp\/?$/i, "")
+    .replace(/([._-])amp(\.html?)$/i, "$2")
+    .replace(/\/+$/, "");
+
+  return `${host}${parsed.port ? ":" + parsed.port : ""}${path}${parsed.search}`;
+}
+
+/**
+ * Reads `<link rel="canonical">` (or `og:url`) from a scraped page, resolved
+ * against the page URL. Canonicals pointing at a site's home page are
+ * ignored: some publishers set that on every article.
+ */
+export function resolveCanonicalLink(href: string | undefined, pageUrl: string): string | null {
+  if (!href) return null;
+
+  const canonical = canonicalizeUrl(href, pageUrl);
+  if (!canonical) return null;
+
+  const path = new URL(canonical).pathname;
+  if (path === "/" || path === "") return null;
+
+  return canonical;
+}
+
+/**
+ * Stable article id: the first 16 hex chars of the SHA-256 of the URL's
+ * identity key, so every variant of the same article URL gets the same id.
+ */
+export function articleIdForUrl(url: string): string {
+  return crypto.createHash("sha256").update(urlIdentityKey(url)).digest("hex").substring(0, 16);
+}
@@ -0,0 +1,89 @@
+import {describe, it} from "node:test";
+import * as assert from "node:assert/strict";
+import {ChangeLog, diffArticles, removedIdsSince, stampModifiedAt} from "../src/change-log";
+
+const EARLIER = "2026-10-19T08:00:00.000Z";
+const NOW = "2026-10-19T12:00:00.000Z";
+
+interface TestArticle {
+  id: string;
+  url: string;
+  title: string;
+  published_at: string;
+  modified_at?: string;
+}
+
+function article(id: string, title = `Story ${id}`, modifiedAt?: string): TestArticle {
+  return {
+    id,
+    url: `https://example.com/${id}`,
+    title,
+    published_at: "2026-10-19T07:00:00.000Z",
+    ...(modifiedAt ? {modified_at: modifiedAt} : {}),
+  };
+}
+
+describe("stampModifiedAt", () => {
+  it("keeps modified_at for unchanged articles and stamps changed and new ones", () => {
+    const previous = [article("a", "Story a", EARLIER), article("b", "Story b", EARLIER)];
+    const next = [article("a"), article("b", "Story b, updated"), article("c")];
+
+    stampModifiedAt(previous, next, NOW);
+
+    assert.deepEqual(next.map((item) => item.modified_at), [EARLIER, NOW, NOW]);
+  });
+
+  it("falls back to published_at for articles stamped before the field existed", () => {
+    const next = [article("a")];
+    stampModifiedAt([article("a")], next, NOW);
+
+    assert.equal(next[0].modified_at, "2026-10-19T07:00:00.000Z");
+  });
+});
+
+describe("diffArticles", () => {
+  it("reports added, updated and removed ids", () => {
+    const previous = [article("a", "Story a", EARLIER), article("b", "Story b", EARLIER), article("c", "Story c", EARLIER)];
+    const next = [article("a"), article("b", "Story b, updated"), article("d")];
+    stampModifiedAt(previous, next, NOW);
+
+    assert.deepEqual(diffArticles(previous, next, NOW), {
+      added_ids: ["d"],
+      updated_ids: ["b"],
+      removed_ids: ["c"],
+    });
+  });
+
+  it("falls back to the URL for articles without an id", () => {
+    const previous = [{url: "https://example.com/old"}];
+    const next = [{url: "https://example.com/new", modified_at: NOW}];
+
+    assert.deepEqual(diffArticles(previous, next, NOW), {
+      added_ids: ["https://example.com/new"],
+      updated_ids: [],
+      removed_ids: ["https://example.com/old"],
+    });
+  });
+});
+
+describe("removedIdsSince", () => {
+  const log: ChangeLog = {
+    category: "technology",
+    complete_since: "2026-10-12T12:00:00.000Z",
+    entries: [
+      {at: "2026-10-18T12:00:00.000Z", removed_ids: ["a", "b"]},
+      {at: "2026-10-19T10:00:00.000Z", removed_ids: ["b", "c"]},
+    ],
+  };
+
+  it("returns the ids removed after the given time, once each", () => {
+    assert.deepEqual(removedIdsSince(log, Date.parse("2026-10-18T00:00:00Z")), ["a", "b", "c"]);
+    assert.deepEqual(removedIdsSince(log, Date.parse("2026-10-19T00:00:00Z")), ["b", "c"]);
+    assert.deepEqual(removedIdsSince(log, Date.parse(NOW)), []);
+  });
+
+  it("returns null when the log does not reach back far enough", () => {
+    assert.equal(removedIdsSince(log, Date.parse("2026-10-01T00:00:00Z")), null);
+    assert.equal(removedIdsSince(null, Date.parse(NOW)), null);
+  });
+});
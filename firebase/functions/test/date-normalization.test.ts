@@ -0,0 +1,70 @@
+import {describe, it} from "node:test";
+import * as assert from "node:assert/strict";
+import {normalizePublishedDate} from "../src/date-normalization";
+
+const NOW = Date.parse("2026-10-19T12:00:00Z");
+
+// The result without `original`, which is just the trimmed input
+function normalized(raw: unknown) {
+  const {iso, status} = normalizePublishedDate(raw, NOW);
+  return {iso, status};
+}
+
+describe("normalizePublishedDate", () => {
+  it("reads RFC 822 dates with an offset or zone name", () => {
+    assert.deepEqual(
+      normalized("Mon, 19 Oct 2026 10:00:00 +0200"),
+      {iso: "2026-10-19T08:00:00.000Z", status: "ok"}
+    );
+    assert.equal(normalized("Mon, 19 Oct 2026 10:00:00 GMT").iso, "2026-10-19T10:00:00.000Z");
+  });
+
+  it("reads ISO 8601 dates", () => {
+    assert.deepEqual(
+      normalized("2026-10-19T09:30:00.000Z"),
+      {iso: "2026-10-19T09:30:00.000Z", status: "ok"}
+    );
+  });
+
+  it("reads Italian dates as Rome time, summer and winter", () => {
+    assert.deepEqual(
+      normalized("lunedì 12 ottobre 2026, ore 10.30"),
+      {iso: "2026-10-12T08:30:00.000Z", status: "assumed_timezone"}
+    );
+    assert.deepEqual(
+      normalized("15/01/2026 10:00"),
+      {iso: "2026-01-15T09:00:00.000Z", status: "assumed_timezone"}
+    );
+  });
+
+  it("reads unix timestamps in seconds and milliseconds", () => {
+    assert.equal(normalized("1792400400").iso, "2026-10-19T09:00:00.000Z");
+    assert.equal(normalized(1792400400000).iso, "2026-10-19T09:00:00.000Z");
+  });
+
+  it("reads the text of parsed XML nodes", () => {
+    assert.equal(normalized({"#text": "2026-10-19T09:30:00Z"}).iso, "2026-10-19T09:30:00.000Z");
+  });
+
+  it("clamps dates slightly in the future to now", () => {
+    assert.deepEqual(
+      normalized("2026-10-19T13:00:00Z"),
+      {iso: new Date(NOW).toISOString(), status: "clamped_future"}
+    );
+  });
+
+  it("rejects dates far in the future", () => {
+    assert.deepEqual(normalized("2026-10-21T12:00:00Z"), {iso: null, status: "future"});
+  });
+
+  it("keeps the trimmed original text", () => {
+    assert.equal(normalizePublishedDate("  2026-10-19T09:30:00Z ", NOW).original, "2026-10-19T09:30:00Z");
+  });
+
+  it("reports missing and unparseable values", () => {
+    assert.deepEqual(normalized(undefined), {iso: null, status: "missing"});
+    assert.deepEqual(normalized("  "), {iso: null, status: "missing"});
+    assert.deepEqual(normalized("yesterday afternoon"), {iso: null, status: "unparseable"});
+    assert.deepEqual(normalized("2026-13-45"), {iso: null, status: "unparseable"});
+  });
+});
@@ -0,0 +1,43 @@
+import {describe, it} from "node:test";
+import * as assert from "node:assert/strict";
+import {splitSentences} from "../src/extractive-summarizer";
+
+describe("splitSentences", () => {
+  it("splits on terminal punctuation followed by a new sentence", () => {
+    assert.deepEqual(splitSentences("Il piano è stato approvato. I lavori partono a maggio! Chi paga? Il comune.", "it"), [
+      "Il piano è stato approvato.",
+      "I lavori partono a maggio!",
+      "Chi paga?",
+      "Il comune.",
+    ]);
+  });
+
+  it("does not split after abbreviations, initials or acronyms", () => {
+    assert.deepEqual(splitSentences("Il sig. Rossi e il prof. Bianchi hanno incontrato G. Verdi. Poi sono ripartiti.", "it"), [
+      "Il sig. Rossi e il prof. Bianchi hanno incontrato G. Verdi.",
+      "Poi sono ripartiti.",
+    ]);
+    assert.deepEqual(splitSentences("Mr. Smith met Dr. Jones in the U.S. Capitol. They talked.", "en"), [
+      "Mr. Smith met Dr. Jones in the U.S. Capitol.",
+      "They talked.",
+    ]);
+  });
+
+  it("does not split decimal numbers or times", () => {
+    assert.deepEqual(splitSentences("Il PIL cresce del 3.5 per cento. Alle 10.30 parla il ministro.", "it"), [
+      "Il PIL cresce del 3.5 per cento.",
+      "Alle 10.30 parla il ministro.",
+    ]);
+  });
+
+  it("keeps closing quotes with their sentence", () => {
+    assert.deepEqual(splitSentences("Ha detto: «Siamo pronti.» Poi è uscito.", "it"), [
+      "Ha detto: «Siamo pronti.»",
+      "Poi è uscito.",
+    ]);
+  });
+
+  it("does not split before a lower-case word", () => {
+    assert.deepEqual(splitSentences("Costa 5 euro ecc. e non di più.", null), ["Costa 5 euro ecc. e non di più."]);
+  });
+});
@@ -0,0 +1,79 @@
+import {describe, it} from "node:test";
+import * as assert from "node:assert/strict";
+import {claimAggregation, claimCategoryJob, createFanOutRun, finishCategory} from "../src/pipeline-jobs";
+
+const RUN_ID = "2026-10-19T12-00-00Z";
+const NOW = new Date("2026-10-19T12:00:00Z");
+const LATER = new Date("2026-10-19T12:05:00Z");
+
+describe("category jobs", () => {
+  it("claims a pending job and counts the attempt", () => {
+    const run = createFanOutRun(RUN_ID, NOW, ["technology", "sports"]);
+
+    assert.equal(claimCategoryJob(run, "technology", NOW), true);
+    assert.deepEqual(run.categories.technology, {status: "running", attempts: 1, started_at: NOW.toISOString()});
+  });
+
+  it("claims a running job again, for a retry after a crash", () => {
+    const run = createFanOutRun(RUN_ID, NOW, ["technology"]);
+    claimCategoryJob(run, "technology", NOW);
+
+    assert.equal(claimCategoryJob(run, "technology", LATER), true);
+    assert.equal(run.categories.technology.attempts, 2);
+  });
+
+  it("does not claim a finished job again", () => {
+    const run = createFanOutRun(RUN_ID, NOW, ["technology", "sports"]);
+    claimCategoryJob(run, "technology", NOW);
+    finishCategory(run, "technology", {status: "failed", error: "timeout"}, LATER);
+
+    assert.equal(claimCategoryJob(run, "technology", LATER), false);
+    assert.equal(run.categories.technology.attempts, 1);
+  });
+
+  it("does not claim categories the run does not have", () => {
+    const run = createFanOutRun(RUN_ID, NOW, ["technology"]);
+    assert.equal(claimCategoryJob(run, "sports", NOW), false);
+  });
+
+  it("reports when the last category finishes", () => {
+    const run = createFanOutRun(RUN_ID, NOW, ["technology", "sports"]);
+
+    assert.equal(finishCategory(run, "technology", {status: "done"}, LATER), false);
+    assert.equal(finishCategory(run, "sports", {status: "failed", error: "timeout"}, LATER), true);
+    assert.equal(run.categories.sports.finished_at, LATER.toISOString());
+  });
+});
+
+describe("aggregation", () => {
+  it("waits for every category unless it is the fallback", () => {
+    const run = createFanOutRun(RUN_ID, NOW, ["technology", "sports"]);
+    finishCategory(run, "technology", {status: "done"}, LATER);
+
+    assert.equal(claimAggregation(run, false), false);
+    assert.equal(run.aggregation.status, "pending");
+
+    assert.deepEqual(claimAggregation(run, true), ["sports"]);
+    assert.equal(run.aggregation.status, "running");
+  });
+
+  it("goes ahead once every category finished", () => {
+    const run = createFanOutRun(RUN_ID, NOW, ["technology", "sports"]);
+    finishCategory(run, "technology", {status: "done"}, LATER);
+    finishCategory(run, "sports", {status: "failed"}, LATER);
+
+    assert.deepEqual(claimAggregation(run, false), []);
+  });
+
+  it("runs again after a crash but not after it finished", () => {
+    const run = createFanOutRun(RUN_ID, NOW, ["technology"]);
+    finishCategory(run, "technology", {status: "done"}, LATER);
+    claimAggregation(run, false);
+
+    assert.deepEqual(claimAggregation(run, false), []);
+
+    run.aggregation.status = "done";
+    assert.equal(claimAggregation(run, false), false);
+    assert.equal(claimAggregation(run, true), false);
+  });
+});
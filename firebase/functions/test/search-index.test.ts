@@ -0,0 +1,63 @@
+import {describe, it} from "node:test";
+import * as assert from "node:assert/strict";
+import {SearchableArticle, buildSearchIndex, searchIndex} from "../src/search-index";
+
+const NOW = Date.parse("2026-10-19T12:00:00Z");
+
+function article(id: string, title: string, summary: string): SearchableArticle {
+  return {
+    id,
+    title,
+    url: `https://example.com/${id}`,
+    summary,
+    source: "Example",
+    published_at: "2026-10-19T08:00:00Z",
+  };
+}
+
+// Names Object.prototype has, so a plain object lookup would find them
+const PROTOTYPE_WORDS = ["constructor", "__proto__", "toString", "hasOwnProperty", "valueOf"];
+
+describe("search index", () => {
+  it("indexes and finds ordinary terms", () => {
+    const index = buildSearchIndex([
+      {category: "technology", article: article("a", "New smartphone launched", "The phone ships in May.")},
+      {category: "sports", article: article("b", "Football final tonight", "The final starts at nine.")},
+    ]);
+
+    const hits = searchIndex(index, "smartphone", {}, NOW);
+    assert.deepEqual(hits.map((hit) => hit.document.article.id), ["a"]);
+  });
+
+  it("builds from articles containing Object.prototype names", () => {
+    const text = PROTOTYPE_WORDS.join(" ");
+    const index = buildSearchIndex([
+      {category: "technology", article: article("a", `JavaScript ${text}`, text)},
+      {category: "technology", article: article("b", "Constructor wins the championship", "The constructor title.")},
+    ]);
+
+    const hits = searchIndex(index, "constructor", {}, NOW);
+    assert.deepEqual(hits.map((hit) => hit.document.article.id).sort(), ["a", "b"]);
+  });
+
+  it("answers queries for Object.prototype names the index does not contain", () => {
+    const index = buildSearchIndex([
+      {category: "sports", article: article("a", "Football final tonight", "The final starts at nine.")},
+    ]);
+
+    for (const word of PROTOTYPE_WORDS) {
+      assert.deepEqual(searchIndex(index, word, {}, NOW), [], word);
+    }
+  });
+
+  it("handles the same names in an index read back from JSON", () => {
+    const index = JSON.parse(JSON.stringify(buildSearchIndex([
+      {category: "technology", article: article("a", "Constructor and __proto__ explained", "toString too.")},
+      {category: "sports", article: article("b", "Football final tonight", "The final starts at nine.")},
+    ])));
+
+    assert.deepEqual(searchIndex(index, "constructor", {}, NOW).map((hit) => hit.document.article.id), ["a"]);
+    assert.deepEqual(searchIndex(index, "__proto__", {}, NOW).map((hit) => hit.document.article.id), ["a"]);
+    assert.deepEqual(searchIndex(index, "valueOf", {}, NOW), []);
+  });
+});
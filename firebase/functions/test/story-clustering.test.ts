@@ -0,0 +1,85 @@
+import {describe, it} from "node:test";
+import * as assert from "node:assert/strict";
+import {ClusterableArticle, clusterStories} from "../src/story-clustering";
+
+const TRAM_TITLE = "Il consiglio comunale approva il nuovo piano dei trasporti con tre linee del tram";
+const TRAM_SUMMARY =
+  "Il consiglio comunale ha approvato martedì il nuovo piano dei trasporti pubblici che aggiunge " +
+  "tre linee del tram e raddoppia gli autobus notturni in tutta la città.";
+
+function article(source: string, publishedAt: string, title = TRAM_TITLE, summary = TRAM_SUMMARY): ClusterableArticle {
+  return {
+    id: source,
+    title,
+    url: `https://${source}.example.com/tram`,
+    summary,
+    published_at: publishedAt,
+    source,
+  };
+}
+
+describe("clusterStories", () => {
+  it("merges copies of the same story into the earliest article", () => {
+    const {stories, merged} = clusterStories([
+      article("beta", "2026-10-19T09:00:00Z"),
+      article("alpha", "2026-10-19T08:00:00Z"),
+      article("gamma", "2026-10-19T10:00:00Z", `${TRAM_TITLE}: le reazioni`),
+    ]);
+
+    assert.equal(merged, 2);
+    assert.equal(stories.length, 1);
+    assert.equal(stories[0].source, "alpha");
+    assert.deepEqual(stories[0].related_sources.map((related) => related.source), ["beta", "gamma"]);
+  });
+
+  it("prefers an article with a summary as the primary", () => {
+    const {stories} = clusterStories([
+      article("alpha", "2026-10-19T08:00:00Z"),
+      article("beta", "2026-10-19T09:00:00Z"),
+    ], (candidate) => candidate.source === "beta");
+
+    assert.equal(stories[0].source, "beta");
+  });
+
+  it("keeps different stories apart", () => {
+    const {stories, merged} = clusterStories([
+      article("alpha", "2026-10-19T08:00:00Z"),
+      article(
+        "beta",
+        "2026-10-19T08:30:00Z",
+        "La squadra vince la finale del campionato dopo i rigori",
+        "Una partita decisa ai rigori davanti a cinquantamila tifosi allo stadio."
+      ),
+    ]);
+
+    assert.equal(merged, 0);
+    assert.equal(stories.length, 2);
+  });
+
+  it("does not merge copies published days apart", () => {
+    const {merged} = clusterStories([
+      article("alpha", "2026-10-15T08:00:00Z"),
+      article("beta", "2026-10-19T08:00:00Z"),
+    ]);
+
+    assert.equal(merged, 0);
+  });
+
+  it("keeps the primary and related sources of a story from an earlier run", () => {
+    const previous = {
+      ...article("beta", "2026-10-19T09:00:00Z"),
+      related_sources: [{id: "delta", source: "delta", url: "https://delta.example.com/tram", title: TRAM_TITLE, published_at: "2026-10-19T07:00:00Z"}],
+    };
+
+    const {stories} = clusterStories([article("alpha", "2026-10-19T08:00:00Z"), previous]);
+
+    assert.equal(stories.length, 1);
+    assert.equal(stories[0].source, "beta");
+    assert.deepEqual(stories[0].related_sources.map((related) => related.source), ["delta", "alpha"]);
+  });
+
+  it("returns fewer than two articles unchanged", () => {
+    const single = [article("alpha", "2026-10-19T08:00:00Z")];
+    assert.deepEqual(clusterStories(single), {stories: single, merged: 0});
+  });
+});
@@ -0,0 +1,188 @@
+import {after, before, describe, it} from "node:test";
+import * as assert from "node:assert/strict";
+import * as http from "http";
+import {AddressInfo} from "net";
+import {
+  ExtractiveSummarizer,
+  HuggingFaceSummarizer,
+  OpenAICompatibleSummarizer,
+  summarizeWithChain,
+} from "../src/summarizer";
+import {PipelineLogger} from "../src/pipeline-logger";
+
+interface ReceivedRequest {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+/**
+ * A local server answering by path: `/ok/...` with `okBody`, `/error/...`
+ * with a 503, `/malformed/...` with an unexpected body and `/hang/...`
+ * never. Every request is recorded.
+ */
+function startMockServer(okBody: unknown) {
+  const received: ReceivedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let data = "";
+    req.on("data", (chunk) => data += chunk);
+    req.on("end", () => {
+      received.push({url: req.url || "", headers: req.headers, body: data ? JSON.parse(data) : null});
+
+      if (req.url?.startsWith("/ok/")) {
+        res.writeHead(200, {"Content-Type": "application/json"});
+        res.end(JSON.stringify(okBody));
+      } else if (req.url?.startsWith("/error/")) {
+        res.writeHead(503, {"Content-Type": "application/json"});
+        res.end(JSON.stringify({error: "Model is loading"}));
+      } else if (req.url?.startsWith("/malformed/")) {
+        res.writeHead(200, {"Content-Type": "application/json"});
+        res.end("{\"unexpected\": true}");
+      }
+      // /hang/ is left without a response
+    });
+  });
+
+  return {
+    received,
+    url: async (): Promise<string> => {
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    },
+    close: async () => {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    },
+  };
+}
+
+const OPTIONS = {minWords: 20, maxWords: 60};
+const ARTICLE =
+  "The city council approved the new public transport plan on Tuesday after a long debate. " +
+  "The plan adds three tram lines and doubles the number of night buses across the city. " +
+  "Council members said the first tram line should open within two years of construction starting. " +
+  "Opposition members criticised the cost of the plan and asked for a review of the budget. " +
+  "Residents will be able to comment on the routes at public meetings next month.";
+
+const quietLogger = new PipelineLogger({}, "error");
+
+describe("HuggingFaceSummarizer", () => {
+  const server = startMockServer([{summary_text: "Council approves a new transport plan."}]);
+  let baseUrl: string;
+
+  before(async () => {
+    baseUrl = await server.url();
+  });
+  after(() => server.close());
+
+  it("returns the summary and sends the key and length limits", async () => {
+    const summarizer = new HuggingFaceSummarizer("hf-key", "bart", 1000, `${baseUrl}/ok`);
+
+    assert.equal(await summarizer.summarize(ARTICLE, OPTIONS), "Council approves a new transport plan.");
+
+    const request = server.received[server.received.length - 1];
+    assert.equal(request.url, "/ok/bart");
+    assert.equal(request.headers.authorization, "Bearer hf-key");
+    assert.equal(request.body.parameters.min_length, 20);
+    assert.equal(request.body.parameters.max_length, 90);
+  });
+
+  it("rejects on a 5xx", async () => {
+    const summarizer = new HuggingFaceSummarizer("hf-key", "bart", 1000, `${baseUrl}/error`);
+    await assert.rejects(summarizer.summarize(ARTICLE, OPTIONS));
+  });
+
+  it("rejects when the server does not answer in time", async () => {
+    const summarizer = new HuggingFaceSummarizer("hf-key", "bart", 100, `${baseUrl}/hang`);
+    await assert.rejects(summarizer.summarize(ARTICLE, OPTIONS), /timeout/);
+  });
+
+  it("returns null for a malformed body", async () => {
+    const summarizer = new HuggingFaceSummarizer("hf-key", "bart", 1000, `${baseUrl}/malformed`);
+    assert.equal(await summarizer.summarize(ARTICLE, OPTIONS), null);
+  });
+});
+
+describe("OpenAICompatibleSummarizer", () => {
+  const server = startMockServer({choices: [{message: {content: "  Council approves a new transport plan.\n"}}]});
+  let baseUrl: string;
+
+  before(async () => {
+    baseUrl = await server.url();
+  });
+  after(() => server.close());
+
+  it("returns the trimmed completion and sends the model and title", async () => {
+    const summarizer = new OpenAICompatibleSummarizer(`${baseUrl}/ok/v1/`, "llama", "sk-test", 1000);
+
+    const summary = await summarizer.summarize(ARTICLE, {...OPTIONS, title: "Transport plan approved"});
+    assert.equal(summary, "Council approves a new transport plan.");
+
+    const request = server.received[server.received.length - 1];
+    assert.equal(request.url, "/ok/v1/chat/completions");
+    assert.equal(request.headers.authorization, "Bearer sk-test");
+    assert.equal(request.body.model, "llama");
+    assert.match(request.body.messages[1].content, /^Transport plan approved\n\n/);
+  });
+
+  it("sends no Authorization header without a key", async () => {
+    const summarizer = new OpenAICompatibleSummarizer(`${baseUrl}/ok/v1`, "llama", undefined, 1000);
+    await summarizer.summarize(ARTICLE, OPTIONS);
+
+    assert.equal(server.received[server.received.length - 1].headers.authorization, undefined);
+  });
+
+  it("rejects on a 5xx", async () => {
+    const summarizer = new OpenAICompatibleSummarizer(`${baseUrl}/error/v1`, "llama", undefined, 1000);
+    await assert.rejects(summarizer.summarize(ARTICLE, OPTIONS));
+  });
+
+  it("rejects when the server does not answer in time", async () => {
+    const summarizer = new OpenAICompatibleSummarizer(`${baseUrl}/hang/v1`, "llama", undefined, 100);
+    await assert.rejects(summarizer.summarize(ARTICLE, OPTIONS), /timeout/);
+  });
+
+  it("returns null for a malformed body", async () => {
+    const summarizer = new OpenAICompatibleSummarizer(`${baseUrl}/malformed/v1`, "llama", undefined, 1000);
+    assert.equal(await summarizer.summarize(ARTICLE, OPTIONS), null);
+  });
+});
+
+describe("summarizeWithChain", () => {
+  const server = startMockServer([{summary_text: "Council approves a new transport plan."}]);
+  let baseUrl: string;
+
+  before(async () => {
+    baseUrl = await server.url();
+  });
+  after(() => server.close());
+
+  it("uses the first provider that answers", async () => {
+    const result = await summarizeWithChain([
+      new HuggingFaceSummarizer("hf-key", "bart", 1000, `${baseUrl}/ok`),
+      new ExtractiveSummarizer(),
+    ], ARTICLE, OPTIONS, quietLogger);
+
+    assert.deepEqual(result, {summary: "Council approves a new transport plan.", provider: "huggingface"});
+  });
+
+  it("falls back to the extractive provider when the others fail", async () => {
+    const result = await summarizeWithChain([
+      new HuggingFaceSummarizer("hf-key", "bart", 100, `${baseUrl}/hang`),
+      new OpenAICompatibleSummarizer(`${baseUrl}/error/v1`, "llama", undefined, 1000),
+      new OpenAICompatibleSummarizer(`${baseUrl}/malformed/v1`, "llama", undefined, 1000),
+      new ExtractiveSummarizer(),
+    ], ARTICLE, OPTIONS, quietLogger);
+
+    assert.equal(result?.provider, "extractive");
+    assert.ok(result && ARTICLE.includes(result.summary.split(". ")[0]));
+  });
+
+  it("returns null when no provider has a summary", async () => {
+    const result = await summarizeWithChain([
+      new HuggingFaceSummarizer("hf-key", "bart", 1000, `${baseUrl}/error`),
+    ], ARTICLE, OPTIONS, quietLogger);
+
+    assert.equal(result, null);
+  });
+});
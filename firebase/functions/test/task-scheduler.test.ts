@@ -0,0 +1,117 @@
+import {describe, it} from "node:test";
+import * as assert from "node:assert/strict";
+import {TaskScheduler} from "../src/task-scheduler";
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe("TaskScheduler", () => {
+  it("starts tasks submitted together highest priority first", async () => {
+    const scheduler = new TaskScheduler({concurrency: 2, perHostConcurrency: 2, deadline: Date.now() + 60000});
+    const started: string[] = [];
+
+    const submit = (name: string, priority: number) => scheduler.schedule({
+      host: `${name}.example.com`,
+      priority,
+      run: async () => {
+        started.push(name);
+        await delay(5);
+        return name;
+      },
+    });
+
+    await Promise.all([
+      submit("low-1", 1),
+      submit("low-2", 1),
+      submit("low-3", 1),
+      submit("high", 9),
+      submit("mid", 5),
+    ]);
+
+    assert.deepEqual(started, ["high", "mid", "low-1", "low-2", "low-3"]);
+  });
+
+  it("keeps to the global and per-host limits", async () => {
+    const scheduler = new TaskScheduler({concurrency: 3, perHostConcurrency: 1, deadline: Date.now() + 60000});
+    let running = 0;
+    let maxRunning = 0;
+    const runningByHost = new Map<string, number>();
+
+    const tasks = ["a", "a", "a", "b", "b", "c", "d"].map((host) => scheduler.schedule({
+      host,
+      priority: 1,
+      run: async () => {
+        running++;
+        runningByHost.set(host, (runningByHost.get(host) || 0) + 1);
+        maxRunning = Math.max(maxRunning, running);
+        assert.equal(runningByHost.get(host), 1);
+        await delay(5);
+        runningByHost.set(host, runningByHost.get(host) - 1);
+        running--;
+      },
+    }));
+
+    await Promise.all(tasks);
+    assert.equal(maxRunning, 3);
+  });
+
+  it("skips tasks still queued at the deadline", async () => {
+    const scheduler = new TaskScheduler({concurrency: 1, perHostConcurrency: 1, deadline: Date.now() + 20});
+
+    const outcomes = await Promise.all([
+      scheduler.schedule({host: "a", priority: 2, run: () => delay(40).then(() => "slow")}),
+      scheduler.schedule({host: "b", priority: 1, run: async () => "late"}),
+    ]);
+
+    assert.deepEqual(outcomes, [{status: "done", value: "slow"}, {status: "skipped"}]);
+    assert.equal(scheduler.skippedCount, 1);
+  });
+
+  it("runs nested tasks without a global slot, under their own per-host limit", async () => {
+    const scheduler = new TaskScheduler({concurrency: 1, perHostConcurrency: 1, deadline: Date.now() + 60000});
+    let nestedRunning = 0;
+    let maxNestedRunning = 0;
+
+    const image = () => scheduler.schedule({
+      host: "cdn.example.com",
+      priority: 1,
+      nested: true,
+      run: async () => {
+        nestedRunning++;
+        maxNestedRunning = Math.max(maxNestedRunning, nestedRunning);
+        await delay(5);
+        nestedRunning--;
+        return "image";
+      },
+    });
+
+    // The only global slot and the host slot are held by the parent, which
+    // waits on requests to its own host: this must not deadlock
+    const outcome = await scheduler.schedule({
+      host: "cdn.example.com",
+      priority: 1,
+      run: () => Promise.all([image(), image(), image()]),
+    });
+
+    const done = {status: "done", value: "image"};
+    assert.deepEqual(outcome, {status: "done", value: [done, done, done]});
+    assert.equal(maxNestedRunning, 1);
+  });
+
+  it("starts nested tasks after the deadline", async () => {
+    const scheduler = new TaskScheduler({concurrency: 1, perHostConcurrency: 1, deadline: Date.now() + 10});
+
+    const outcome = await scheduler.schedule({
+      host: "example.com",
+      priority: 1,
+      run: async () => {
+        await delay(20);
+        return scheduler.schedule({host: "cdn.example.com", priority: 1, nested: true, run: async () => "image"});
+      },
+    });
+
+    assert.deepEqual(outcome, {status: "done", value: {status: "done", value: "image"}});
+    assert.equal(scheduler.skippedCount, 0);
+  });
+});
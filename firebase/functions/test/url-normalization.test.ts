@@ -0,0 +1,81 @@
+import {describe, it} from "node:test";
+import * as assert from "node:assert/strict";
+import {articleIdForUrl, canonicalizeUrl, resolveCanonicalLink, urlIdentityKey} from "../src/url-normalization";
+
+describe("canonicalizeUrl", () => {
+  it("drops tracking parameters, fragments and default ports and sorts the query", () => {
+    assert.equal(
+      canonicalizeUrl("https://News.Example.COM:443/politica/articolo?utm_source=rss&page=2&fbclid=abc&id=7#commenti"),
+      "https://news.example.com/politica/articolo?id=7&page=2"
+    );
+  });
+
+  it("keeps non-default ports", () => {
+    assert.equal(canonicalizeUrl("http://example.com:8080/a"), "http://example.com:8080/a");
+  });
+
+  it("resolves relative URLs against the base", () => {
+    assert.equal(canonicalizeUrl("/sport/finale", "https://example.com/news/"), "https://example.com/sport/finale");
+  });
+
+  it("returns null for anything that is not an http(s) URL", () => {
+    assert.equal(canonicalizeUrl("mailto:redazione@example.com"), null);
+    assert.equal(canonicalizeUrl("javascript:void(0)"), null);
+    assert.equal(canonicalizeUrl("not a url"), null);
+    assert.equal(canonicalizeUrl(""), null);
+  });
+});
+
+describe("urlIdentityKey", () => {
+  it("gives every variant of an article URL the same key", () => {
+    const variants = [
+      "https://www.example.com/news/story",
+      "http://example.com/news/story/",
+      "https://m.example.com/news/story?utm_medium=social",
+      "https://amp.example.com/news/story/amp/",
+      "https://example.com/news/story#top",
+    ];
+    for (const url of variants) {
+      assert.equal(urlIdentityKey(url), "example.com/news/story", url);
+    }
+  });
+
+  it("strips AMP suffixes from file names", () => {
+    assert.equal(urlIdentityKey("https://example.com/news/story-amp.html"), "example.com/news/story.html");
+    assert.equal(urlIdentityKey("https://example.com/news/story_amp.htm"), "example.com/news/story.htm");
+  });
+
+  it("keeps query parameters that identify the article", () => {
+    assert.notEqual(urlIdentityKey("https://example.com/article?id=1"), urlIdentityKey("https://example.com/article?id=2"));
+  });
+
+  it("falls back to the trimmed input for unparseable URLs", () => {
+    assert.equal(urlIdentityKey("  not a url "), "not a url");
+  });
+});
+
+describe("resolveCanonicalLink", () => {
+  it("resolves the canonical against the page URL", () => {
+    assert.equal(
+      resolveCanonicalLink("/news/story?utm_source=x", "https://www.example.com/news/story/amp"),
+      "https://www.example.com/news/story"
+    );
+  });
+
+  it("ignores missing canonicals and ones pointing at the home page", () => {
+    assert.equal(resolveCanonicalLink(undefined, "https://example.com/news/story"), null);
+    assert.equal(resolveCanonicalLink("https://example.com/", "https://example.com/news/story"), null);
+  });
+});
+
+describe("articleIdForUrl", () => {
+  it("is 16 hex characters, shared by variants of the same URL", () => {
+    const id = articleIdForUrl("https://www.example.com/news/story?utm_source=rss");
+    assert.match(id, /^[0-9a-f]{16}$/);
+    assert.equal(articleIdForUrl("http://m.example.com/news/story/amp/"), id);
+  });
+
+  it("differs between articles", () => {
+    assert.notEqual(articleIdForUrl("https://example.com/news/story"), articleIdForUrl("https://example.com/news/other"));
+  });
+});